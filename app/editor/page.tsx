@@ -0,0 +1,10 @@
+import type { Metadata } from 'next'
+import LevelEditor from '@/components/LevelEditor'
+
+export const metadata: Metadata = {
+  title: 'Brown Hole – Level Editor',
+}
+
+export default function Editor() {
+  return <LevelEditor />
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ArrowLeft, Gamepad2, Keyboard } from 'lucide-react'
+import { useDialog } from '@/lib/dialog'
+import {
+  type Bindings,
+  type InputAction,
+  GAMEPAD_BUTTON_NAMES,
+  INPUT_ACTIONS,
+  defaultBindings,
+  keyLabel,
+  rebind,
+  waitForGamepadButton,
+} from '@/lib/input'
+
+interface ControlsSettingsProps {
+  bindings: Bindings[] // One set per local player
+  onChange: (player: number, bindings: Bindings) => void
+  onClose: () => void
+}
+
+const ACTION_LABELS: Record<InputAction, string> = {
+  left: 'Move left',
+  right: 'Move right',
+  launch: 'Launch',
+  pause: 'Pause',
+  slowMotion: 'Slow motion (assist)',
+}
+
+type Listening = { action: InputAction; device: 'key' | 'button' } | null
+
+export default function ControlsSettings({ bindings, onChange, onClose }: ControlsSettingsProps) {
+  const dialog = useDialog('Controls', onClose)
+  const [player, setPlayer] = useState(0)
+  const [listening, setListening] = useState<Listening>(null)
+  const current = bindings[player]
+
+  // Wait for the next key or button and bind it to the chosen action
+  useEffect(() => {
+    if (!listening) return
+    const { action, device } = listening
+
+    if (device === 'button') {
+      return waitForGamepadButton(index => {
+        onChange(player, { ...current, buttons: rebind(current.buttons, action, index) })
+        setListening(null)
+      }, player)
+    }
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Capture phase, so the game's own key handling never sees this press
+      e.preventDefault()
+      e.stopPropagation()
+      onChange(player, { ...current, keys: rebind(current.keys, action, e.code) })
+      setListening(null)
+    }
+    window.addEventListener('keydown', onKeyDown, true)
+    return () => window.removeEventListener('keydown', onKeyDown, true)
+  }, [listening, current, onChange, player])
+
+  const isListening = (action: InputAction, device: 'key' | 'button') =>
+    listening?.action === action && listening.device === device
+
+  return (
+    <div
+      {...dialog}
+      className="absolute inset-0 z-50 bg-black/95 text-white overflow-y-auto p-6 flex flex-col items-center"
+      onClick={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+    >
+      <div className="w-full max-w-2xl">
+        <button onClick={onClose} className="flex items-center gap-2 text-white/70 hover:text-white font-bold uppercase tracking-widest mb-6">
+          <ArrowLeft size={20} /> Back
+        </button>
+
+        <h2 className="text-5xl font-black mb-2 text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-pink-500">
+          CONTROLS
+        </h2>
+        <p className="text-white/60 mb-6">Mouse and touch always move the paddle. Click a binding, then press the new key or button.</p>
+
+        <div className="flex gap-3 mb-6">
+          {bindings.map((_, idx) => (
+            <button
+              key={idx}
+              onClick={() => { setListening(null); setPlayer(idx) }}
+              className={`px-4 py-2 rounded-full border-2 font-bold ${player === idx ? 'border-yellow-400 text-yellow-400 bg-white/10' : 'border-white/20'}`}
+            >
+              Player {idx + 1}
+            </button>
+          ))}
+        </div>
+        {player > 0 && (
+          <p className="text-sm text-white/50 mb-4">
+            Used in two-player games, on the second gamepad. Player 1 gives up any key player 2 has.
+          </p>
+        )}
+
+        <table className="w-full mb-8 text-left">
+          <thead className="text-xs uppercase tracking-widest text-white/50">
+            <tr>
+              <th className="py-1">Action</th>
+              <th><span className="flex items-center gap-1"><Keyboard size={16} /> Keyboard</span></th>
+              <th><span className="flex items-center gap-1"><Gamepad2 size={16} /> Gamepad</span></th>
+            </tr>
+          </thead>
+          <tbody>
+            {INPUT_ACTIONS.map(action => (
+              <tr key={action} className="border-t border-white/10">
+                <td className="py-2 font-bold">{ACTION_LABELS[action]}</td>
+                <td>
+                  <button
+                    onClick={() => setListening({ action, device: 'key' })}
+                    className={`px-3 py-1 rounded-full border-2 font-mono ${isListening(action, 'key') ? 'border-yellow-400 text-yellow-400 animate-pulse' : 'border-white/20 hover:border-white/50'}`}
+                  >
+                    {isListening(action, 'key') ? 'Press a key…' : current.keys[action].map(keyLabel).join(' / ') || 'Unbound'}
+                  </button>
+                </td>
+                <td>
+                  <button
+                    onClick={() => setListening({ action, device: 'button' })}
+                    className={`px-3 py-1 rounded-full border-2 font-mono ${isListening(action, 'button') ? 'border-yellow-400 text-yellow-400 animate-pulse' : 'border-white/20 hover:border-white/50'}`}
+                  >
+                    {isListening(action, 'button')
+                      ? 'Press a button…'
+                      : current.buttons[action].map(i => GAMEPAD_BUTTON_NAMES[i] ?? `Button ${i}`).join(' / ') || 'Unbound'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="text-sm text-white/50 mb-6">The left stick always steers too.</p>
+
+        <div className="flex gap-3">
+          {listening && (
+            <button onClick={() => setListening(null)} className="px-5 py-2 rounded-full bg-white/10 hover:bg-white/20 font-bold">
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={() => { setListening(null); onChange(player, defaultBindings(player)) }}
+            className="px-5 py-2 rounded-full bg-white/10 hover:bg-white/20 font-bold"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import { useState } from 'react'
+import { CalendarDays, Share2 } from 'lucide-react'
+import { type DailyResult, shareText } from '@/lib/daily'
+
+interface DailyCardProps {
+  date: string
+  result: DailyResult | null // Today's scored attempt, if it's been played
+}
+
+/** Today's Daily Hole: whether the scored attempt is still to come, or how it went with a button to share it. */
+export default function DailyCard({ date, result }: DailyCardProps) {
+  const [copied, setCopied] = useState(false)
+
+  const share = () => {
+    if (!result) return
+    navigator.clipboard.writeText(shareText(result))
+      .then(() => setCopied(true))
+      .catch(e => console.log("Copying the daily result failed", e))
+  }
+
+  return (
+    <div className="w-full max-w-sm mb-6 rounded-3xl bg-white/10 p-4 text-white text-center" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-center gap-2 font-black uppercase tracking-widest text-pink-200">
+        <CalendarDays size={18} /> Daily Hole · {date}
+      </div>
+      {!result ? (
+        <p className="mt-2 text-sm text-white/70">Same boards for everyone today. Your first run is the one that counts.</p>
+      ) : (
+        <>
+          <p className="mt-2 font-bold">
+            {result.finished ? `${result.score} pts · ${result.won ? 'all levels' : `level ${result.level}/${result.levels}`}` : 'Abandoned attempt'}
+          </p>
+          {result.grid && <pre className="mt-2 text-xs leading-none">{result.grid}</pre>}
+          <p className="mt-2 text-sm text-white/60">Any more runs today are practice.</p>
+          <button
+            onClick={share}
+            className="mt-3 inline-flex items-center gap-2 px-4 py-1 rounded-full border-2 border-yellow-400 text-yellow-400 font-bold hover:bg-white/10"
+          >
+            <Share2 size={16} /> {copied ? 'Copied!' : 'Share'}
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
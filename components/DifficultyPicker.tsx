@@ -0,0 +1,92 @@
+'use client'
+
+import { LifeBuoy } from 'lucide-react'
+import { DIFFICULTY_LIMITS, DIFFICULTY_PRESET_NAMES, type DifficultyPreset, type DifficultySettings, clampDifficulty } from '@/lib/engine/difficulty'
+import type { DifficultyChoice } from '@/lib/difficulty'
+
+interface DifficultyPickerProps {
+  choice: DifficultyChoice
+  onChange: (choice: DifficultyChoice) => void
+}
+
+const PRESETS: { preset: DifficultyPreset; label: string }[] = [
+  ...DIFFICULTY_PRESET_NAMES.map(preset => ({ preset, label: preset[0].toUpperCase() + preset.slice(1) })),
+  { preset: 'custom', label: 'Custom' },
+]
+
+const SETTING_LABELS: Record<keyof DifficultySettings, string> = {
+  paddleWidth: 'Paddle width',
+  paddleShrink: 'Paddle shrink per level',
+  minPaddleWidth: 'Smallest paddle',
+  launchSpeed: 'Launch speed',
+  launchSpeedPerLevel: 'Launch speed per level',
+  lives: 'Lives',
+  powerUpChance: 'Power-up chance',
+  ballRadius: 'Ball size',
+  maxBallSpeed: 'Top ball speed',
+}
+
+/** The menu's difficulty row, the assist toggle, and the custom settings when Custom is picked. */
+export default function DifficultyPicker({ choice, onChange }: DifficultyPickerProps) {
+  const setCustom = (key: keyof DifficultySettings, value: number) =>
+    onChange({ ...choice, custom: clampDifficulty({ ...choice.custom, [key]: value }) })
+
+  return (
+    <div className="flex flex-col items-center gap-3 mb-6" onClick={(e) => e.stopPropagation()}>
+      <div className="flex flex-wrap justify-center gap-2">
+        {PRESETS.map(({ preset, label }) => (
+          <button
+            key={preset}
+            onClick={() => onChange({ ...choice, preset })}
+            aria-pressed={choice.preset === preset}
+            className={`px-4 py-1 rounded-full text-sm font-bold border-2 transition-colors ${
+              choice.preset === preset ? 'border-yellow-400 text-yellow-400 bg-white/10' : 'border-white/20 text-white hover:border-white/50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        <button
+          onClick={() => onChange({ ...choice, assist: !choice.assist })}
+          aria-pressed={choice.assist}
+          className={`flex items-center gap-2 px-4 py-1 rounded-full text-sm font-bold border-2 transition-colors ${
+            choice.assist ? 'border-cyan-300 text-cyan-300 bg-white/10' : 'border-white/20 text-white hover:border-white/50'
+          }`}
+        >
+          <LifeBuoy size={16} /> Assist {choice.assist ? 'on' : 'off'}
+        </button>
+      </div>
+
+      {choice.assist && (
+        <p className="max-w-sm text-xs text-white/60 text-center">
+          Shows where the ball is headed, saves one lost ball a level and lets you toggle slow motion. Assisted runs are marked in the Hall of Holes.
+        </p>
+      )}
+
+      {choice.preset === 'custom' && (
+        <div className="grid grid-cols-2 gap-x-4 gap-y-2 w-full max-w-sm rounded-3xl bg-white/10 p-4 text-sm">
+          {(Object.keys(SETTING_LABELS) as (keyof DifficultySettings)[]).map(key => {
+            const [min, max, step] = DIFFICULTY_LIMITS[key]
+            return (
+              <label key={key} className="flex items-center justify-between gap-2">
+                <span className="text-white/70">{SETTING_LABELS[key]}</span>
+                <input
+                  type="number"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={choice.custom[key]}
+                  onChange={(e) => {
+                    const value = e.target.valueAsNumber
+                    if (Number.isFinite(value)) setCustom(key, value)
+                  }}
+                  className="w-16 rounded bg-black/40 px-2 py-1 text-right font-mono"
+                />
+              </label>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
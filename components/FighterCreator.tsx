@@ -0,0 +1,306 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { ArrowLeft, Aperture, Camera, ImagePlus, UserPlus } from 'lucide-react'
+import { useDialog } from '@/lib/dialog'
+import { FIGHTER_IMAGE_SIZE, MAX_NAME_LENGTH, type Fighter, fighterNameError } from '@/lib/fighters'
+
+interface FighterCreatorProps {
+  fighters: Fighter[] // Everyone already on the roster, so names stay unique
+  onCreate: (fighter: Fighter) => boolean // False if it couldn't be saved
+  onClose: () => void
+}
+
+interface Photo {
+  image: CanvasImageSource
+  width: number
+  height: number
+}
+
+// Centre of the cropped square in photo pixels; zoom 1 is the largest square that fits
+interface Crop {
+  x: number
+  y: number
+  zoom: number
+}
+
+const PREVIEW_SIZE = 256
+const MAX_ZOOM = 4
+const NUDGES: Record<string, [x: number, y: number]> = { ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1] }
+const SWATCHES = ['#ec4899', '#8b5cf6', '#3b82f6', '#06b6d4', '#22c55e', '#eab308', '#f97316', '#ef4444']
+
+const cropSide = (photo: Photo, zoom: number) => Math.min(photo.width, photo.height) / zoom
+
+// Keeps the cropped square inside the photo
+function clampCrop(photo: Photo, { x, y, zoom }: Crop): Crop {
+  const half = cropSide(photo, zoom) / 2
+  return {
+    x: Math.min(photo.width - half, Math.max(half, x)),
+    y: Math.min(photo.height - half, Math.max(half, y)),
+    zoom,
+  }
+}
+
+/** Draws the cropped square of `photo` to `ctx`, `size` pixels across. */
+function drawCrop(ctx: CanvasRenderingContext2D, photo: Photo, crop: Crop, size: number) {
+  const side = cropSide(photo, crop.zoom)
+  ctx.drawImage(photo.image, crop.x - side / 2, crop.y - side / 2, side, side, 0, 0, size, size)
+}
+
+/** The menu's "Add fighter" screen: a photo from a file or the camera, cropped to the ball's circle, plus a colour and a name. */
+export default function FighterCreator({ fighters, onCreate, onClose }: FighterCreatorProps) {
+  const dialog = useDialog('New fighter', onClose)
+  const [photo, setPhoto] = useState<Photo | null>(null)
+  const [crop, setCrop] = useState<Crop>({ x: 0, y: 0, zoom: 1 })
+  const [camera, setCamera] = useState<MediaStream | null>(null)
+  const [name, setName] = useState('')
+  const [color, setColor] = useState(SWATCHES[6])
+  const [error, setError] = useState('')
+  const previewRef = useRef<HTMLCanvasElement>(null)
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const cameraRef = useRef<MediaStream | null>(null) // For stopping it on unmount
+  const dragRef = useRef<{ x: number; y: number } | null>(null)
+
+  const choosePhoto = (next: Photo) => {
+    setPhoto(next)
+    setCrop({ x: next.width / 2, y: next.height / 2, zoom: 1 })
+    setError('')
+  }
+
+  const loadFile = (file: File) => {
+    const url = URL.createObjectURL(file)
+    const img = new Image()
+    img.onload = () => {
+      choosePhoto({ image: img, width: img.naturalWidth, height: img.naturalHeight })
+      URL.revokeObjectURL(url)
+    }
+    img.onerror = () => {
+      setError("That file isn't a picture this browser can read.")
+      URL.revokeObjectURL(url)
+    }
+    img.src = url
+  }
+
+  // --- Camera ---
+  const stopCamera = () => {
+    cameraRef.current?.getTracks().forEach(track => track.stop())
+    cameraRef.current = null
+    setCamera(null)
+  }
+
+  const startCamera = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user' }, audio: false })
+      cameraRef.current = stream
+      setCamera(stream)
+      setError('')
+    } catch (e) {
+      console.log("Camera unavailable", e)
+      setError("Couldn't open the camera. Check the browser's permission, or upload a photo instead.")
+    }
+  }
+
+  const snap = () => {
+    const video = videoRef.current
+    if (!video || !video.videoWidth) return
+    const frame = document.createElement('canvas')
+    frame.width = video.videoWidth
+    frame.height = video.videoHeight
+    frame.getContext('2d')?.drawImage(video, 0, 0)
+    stopCamera()
+    choosePhoto({ image: frame, width: frame.width, height: frame.height })
+  }
+
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video || !camera) return
+    video.srcObject = camera
+    video.play().catch(e => console.log("Camera preview failed", e))
+  }, [camera])
+
+  useEffect(() => () => cameraRef.current?.getTracks().forEach(track => track.stop()), [])
+
+  // --- Crop Preview ---
+  useEffect(() => {
+    const ctx = previewRef.current?.getContext('2d')
+    if (!ctx || !photo) return
+    const r = PREVIEW_SIZE / 2
+    ctx.clearRect(0, 0, PREVIEW_SIZE, PREVIEW_SIZE)
+    drawCrop(ctx, photo, crop, PREVIEW_SIZE)
+
+    // Dim what the ball won't show, and ring it in the fighter's colour
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)'
+    ctx.beginPath()
+    ctx.rect(0, 0, PREVIEW_SIZE, PREVIEW_SIZE)
+    ctx.arc(r, r, r - 4, 0, Math.PI * 2)
+    ctx.fill('evenodd')
+    ctx.strokeStyle = color
+    ctx.lineWidth = 4
+    ctx.beginPath()
+    ctx.arc(r, r, r - 4, 0, Math.PI * 2)
+    ctx.stroke()
+  }, [photo, crop, color])
+
+  const drag = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!photo || !dragRef.current) return
+    const scale = cropSide(photo, crop.zoom) / PREVIEW_SIZE
+    const dx = (e.clientX - dragRef.current.x) * scale
+    const dy = (e.clientY - dragRef.current.y) * scale
+    dragRef.current = { x: e.clientX, y: e.clientY }
+    setCrop(clampCrop(photo, { ...crop, x: crop.x - dx, y: crop.y - dy }))
+  }
+
+  // Arrow keys nudge the photo too, a tenth of the circle at a time
+  const nudge = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const direction = NUDGES[e.key]
+    if (!photo || !direction) return
+    e.preventDefault()
+    const distance = cropSide(photo, crop.zoom) / 10
+    setCrop(clampCrop(photo, { ...crop, x: crop.x - direction[0] * distance, y: crop.y - direction[1] * distance }))
+  }
+
+  // --- Save ---
+  const create = () => {
+    if (!photo) return setError('Pick a photo first.')
+    const nameError = fighterNameError(name, fighters)
+    if (nameError) return setError(nameError)
+
+    const canvas = document.createElement('canvas')
+    canvas.width = canvas.height = FIGHTER_IMAGE_SIZE
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+    drawCrop(ctx, photo, crop, FIGHTER_IMAGE_SIZE)
+
+    // The ball clips it to a circle when drawn, so a plain square is enough
+    const fighter: Fighter = { name: name.trim(), image: canvas.toDataURL('image/jpeg', 0.85), color, custom: true }
+    if (!onCreate(fighter)) setError("Couldn't save the fighter: the browser's storage is full. Delete a fighter to make room.")
+  }
+
+  const canUseCamera = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia
+
+  return (
+    <div
+      {...dialog}
+      className="absolute inset-0 z-50 bg-black/95 text-white overflow-y-auto p-6 flex flex-col items-center"
+      onClick={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+    >
+      <div className="w-full max-w-2xl">
+        <button onClick={onClose} className="flex items-center gap-2 text-white/70 hover:text-white font-bold uppercase tracking-widest mb-6">
+          <ArrowLeft size={20} /> Back
+        </button>
+
+        <h2 className="text-5xl font-black mb-6 text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-pink-500">
+          NEW FIGHTER
+        </h2>
+
+        <section className="mb-8">
+          <h3 className="text-xl font-bold uppercase tracking-widest text-pink-200 mb-2">Photo</h3>
+          <div className="flex flex-wrap gap-3 mb-4">
+            <label className="flex items-center gap-2 px-4 py-2 rounded-full border-2 border-white/20 hover:border-white/50 font-bold cursor-pointer">
+              <ImagePlus size={18} /> Upload
+              <input
+                type="file"
+                accept="image/*"
+                className="sr-only"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) loadFile(file)
+                  e.target.value = ''
+                }}
+              />
+            </label>
+            {canUseCamera && !camera && (
+              <button onClick={startCamera} className="flex items-center gap-2 px-4 py-2 rounded-full border-2 border-white/20 hover:border-white/50 font-bold">
+                <Camera size={18} /> Take a photo
+              </button>
+            )}
+          </div>
+
+          {camera && (
+            <div className="flex flex-col items-start gap-3">
+              <video ref={videoRef} muted playsInline className="w-64 rounded-2xl bg-white/10" />
+              <div className="flex gap-3">
+                <button onClick={snap} className="flex items-center gap-2 px-4 py-2 rounded-full bg-yellow-400 text-black font-bold">
+                  <Aperture size={18} /> Snap
+                </button>
+                <button onClick={stopCamera} className="px-4 py-2 rounded-full bg-white/10 hover:bg-white/20 font-bold">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {photo && !camera && (
+            <div className="flex flex-wrap items-center gap-6">
+              <canvas
+                ref={previewRef}
+                width={PREVIEW_SIZE}
+                height={PREVIEW_SIZE}
+                className="rounded-2xl bg-white/10 cursor-move touch-none"
+                tabIndex={0}
+                role="img"
+                aria-label="Photo crop. Drag or use the arrow keys to move the photo."
+                onKeyDown={nudge}
+                onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); dragRef.current = { x: e.clientX, y: e.clientY } }}
+                onPointerMove={drag}
+                onPointerUp={() => { dragRef.current = null }}
+                onPointerCancel={() => { dragRef.current = null }}
+              />
+              <label className="flex flex-col gap-2 font-bold">
+                Zoom
+                <input
+                  type="range"
+                  min={1}
+                  max={MAX_ZOOM}
+                  step={0.05}
+                  value={crop.zoom}
+                  onChange={(e) => setCrop(clampCrop(photo, { ...crop, zoom: e.target.valueAsNumber }))}
+                  className="w-48 accent-yellow-400"
+                />
+                <span className="text-sm font-normal text-white/60">Drag the photo, or use the arrow keys, to move it in the circle.</span>
+              </label>
+            </div>
+          )}
+        </section>
+
+        <section className="mb-8">
+          <h3 className="text-xl font-bold uppercase tracking-widest text-pink-200 mb-2">Colour</h3>
+          <div className="flex flex-wrap items-center gap-3">
+            {SWATCHES.map(swatch => (
+              <button
+                key={swatch}
+                onClick={() => setColor(swatch)}
+                aria-label={swatch}
+                className={`w-10 h-10 rounded-full border-4 ${color === swatch ? 'border-white' : 'border-transparent'}`}
+                style={{ backgroundColor: swatch }}
+              />
+            ))}
+            <input type="color" value={color} onChange={(e) => setColor(e.target.value)} aria-label="Any colour" className="w-10 h-10 bg-transparent cursor-pointer" />
+          </div>
+        </section>
+
+        <section className="mb-8">
+          <h3 className="text-xl font-bold uppercase tracking-widest text-pink-200 mb-2">Name</h3>
+          <input
+            value={name}
+            maxLength={MAX_NAME_LENGTH}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Fighter name"
+            className="w-full max-w-sm rounded-full bg-white/10 px-4 py-2 text-xl font-bold"
+            style={{ color }}
+          />
+        </section>
+
+        {error && <p className="mb-4 text-sm text-red-300">{error}</p>}
+
+        <button
+          onClick={create}
+          className="flex items-center gap-2 px-6 py-3 rounded-full bg-gradient-to-r from-yellow-400 to-orange-500 text-black text-xl font-black"
+        >
+          <UserPlus size={22} /> ADD FIGHTER
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,66 +1,40 @@
 'use client'
 
-import { useEffect, useRef, useState, useCallback } from 'react'
+import { useEffect, useLayoutEffect, useReducer, useRef, useState, useCallback } from 'react'
 import confetti from 'canvas-confetti'
-import { Play, RotateCcw, Trophy, Heart, Volume2, VolumeX } from 'lucide-react'
-
-// --- Types ---
-interface Ball {
-  x: number
-  y: number
-  dx: number
-  dy: number
-  radius: number
-  image?: HTMLImageElement | null
-  isAttached?: boolean // For sticky powerup
-  offsetX?: number // Offset from paddle center when attached
-  isThrough?: boolean // For penetrator powerup
-}
-
-interface Paddle {
-  x: number
-  y: number
-  width: number
-  height: number
-  color: string
-  isSticky?: boolean
-}
-
-interface Brick {
-  x: number
-  y: number
-  width: number
-  height: number
-  status: number
-  color: string
-  health: number
-  maxHealth: number
-  type: 'normal' | 'unbreakable'
-}
-
-interface Particle {
-  x: number
-  y: number
-  dx: number
-  dy: number
-  life: number
-  color: string
-}
-
-interface PowerUp {
-  x: number
-  y: number
-  dy: number
-  type: 'blue_balls' | 'jizztime' | 'girthy' | 'clingy' | 'penetrator'
-  width: number
-  height: number
-}
+import { Play, RotateCcw, Trophy, Heart, Volume2, VolumeX, History, StepForward, Pause, LogOut, Gamepad2, User, Users, Swords, Globe, Film, Upload, Download, Flag, InfinityIcon, CalendarDays, Snail, Settings2, UserPlus, X } from 'lucide-react'
+import ControlsSettings from '@/components/ControlsSettings'
+import DailyCard from '@/components/DailyCard'
+import DifficultyPicker from '@/components/DifficultyPicker'
+import FighterCreator from '@/components/FighterCreator'
+import LevelSummary from '@/components/LevelSummary'
+import OnlineLobby, { type OnlineRoom } from '@/components/OnlineLobby'
+import ReplayControls from '@/components/ReplayControls'
+import SettingsPanel from '@/components/SettingsPanel'
+import RunHistory, { NewRecordEntry } from '@/components/RunHistory'
+import { type SoundName, createAudioManager, musicIntensity } from '@/lib/audio'
+import { DIFFICULTY_PRESETS } from '@/lib/engine/difficulty'
+import { ENDLESS_PACK, ENDLESS_PACK_ID, endlessLevel } from '@/lib/engine/endless'
+import { MAX_FRAME_MS, STEP_MS, createGame, fitToPlayfield, loadLevel, resizeGame, startEndless, step } from '@/lib/engine/game'
+import { DEFAULT_LEVEL_PACK, type LevelPack, parseLevelPack } from '@/lib/engine/levels'
+import { POWER_UPS, powerUpDefinition } from '@/lib/engine/powerUps'
+import { createRng, deriveSeed, parseSeed, randomSeed } from '@/lib/engine/rng'
+import type { GameEvent, GameInput, GameState, LevelBonus, PowerUpType } from '@/lib/engine/types'
+import { fetchLevelPack, fetchLevelPackIndex, type LevelPackInfo } from '@/lib/levelPacks'
+import { type PlayMode, isRunning, isSplitScreen, playerCount, transition } from '@/lib/gameFlow'
+import { type Bindings, createInputController, defaultBindings, keyLabel, loadBindings, saveBindings, withoutConflicts } from '@/lib/input'
+import { createTimers } from '@/lib/timers'
+import { BUILT_IN_FIGHTERS, MAX_CUSTOM_FIGHTERS, type Fighter, loadFighters, saveFighters } from '@/lib/fighters'
+import { type DifficultyChoice, DEFAULT_DIFFICULTY, difficultySettings, loadDifficulty, presetOf, saveDifficulty } from '@/lib/difficulty'
+import { DAILY_PACK_ID, type DailyResult, boardGrid, dailyKey, dailyPack, dailySeed, loadDailyResult, saveDailyResult } from '@/lib/daily'
+import { type Snapshot, clearSnapshot, loadSnapshot, saveSnapshot } from '@/lib/savegame'
+import { BOARD_SEND_MS, ONLINE_BOARD, type PeerMessage, type RelayClient, applyBoard, createRelayClient, encodeBoard, relayUrl } from '@/lib/online'
+import { type GameMode, type RunRecord, lastInitials, loadRecords, rankOf, saveRun } from '@/lib/records'
+import { type Replay, type ReplayPlayer, type ReplayRecorder, ReplayError, createRecorder, createReplayPlayer, loadLastReplay, parseReplay, quantizeInput, replayFileName, saveLastReplay, verifyReplay } from '@/lib/replay'
+import { type EffectLevels, type Effects, type PlayerSkin, activeTheme, applyEvents, createEffects, drawGame, setHealthPatterns, setTheme, updateEffects } from '@/lib/render'
+import { DEFAULT_SETTINGS, type Settings, audioVolumes, effectLevels, loadSettings, reducedMotion, saveSettings } from '@/lib/settings'
 
 // --- Constants & Assets ---
-const CHARACTERS = [
-  { name: 'Smashly', image: '/assets/smashly.png', color: '#ec4899' },
-  { name: 'Sagi Tits', image: '/assets/sagitits.png', color: '#8b5cf6' },
-]
 
 /**
  * Motivations are intentionally weighted:
@@ -83,133 +57,213 @@ const EXTRA_MOTIVATIONS = [
   "Girl I want to make you sweat",
 ] as const
 
-function pickMotivation(): string {
+function pickMotivation(random: () => number): string {
   // 80% core, 20% extras
-  const pool = Math.random() < 0.8 ? CORE_MOTIVATIONS : EXTRA_MOTIVATIONS
-  return pool[Math.floor(Math.random() * pool.length)]
+  const pool = random() < 0.8 ? CORE_MOTIVATIONS : EXTRA_MOTIVATIONS
+  return pool[Math.floor(random() * pool.length)]
 }
 
-const COLORS = {
-  background: 'linear-gradient(to bottom, #000000, #1a1a1a)',
-  paddle: '#facc15',
-  text: '#ffffff',
-  brickColors: [
-    '#f472b6', // Pink 400
-    '#a78bfa', // Violet 400
-    '#60a5fa', // Blue 400
-    '#34d399', // Emerald 400
-  ],
-  unbreakable: '#475569',
-  hole: '#3f2e18',
-  powerUps: {
-    blue_balls: '#3b82f6',
-    jizztime: '#ffffff',
-    girthy: '#8b5cf6', // Purple
-    clingy: '#10b981', // Green
-    penetrator: '#ef4444' // Red
-  }
+const PLAY_MODES: { mode: PlayMode; label: string; icon: typeof User }[] = [
+  { mode: 'solo', label: 'Solo', icon: User },
+  { mode: 'coop', label: 'Co-op', icon: Users },
+  { mode: 'versus', label: 'Versus', icon: Swords },
+  { mode: 'online', label: 'Online', icon: Globe },
+]
+
+const GAME_MODES: { mode: GameMode; label: string; icon: typeof User }[] = [
+  { mode: 'campaign', label: 'Campaign', icon: Flag },
+  { mode: 'endless', label: 'Endless', icon: InfinityIcon },
+  { mode: 'daily', label: 'Daily Hole', icon: CalendarDays },
+]
+
+const SLOW_MOTION = 0.5 // Assist mode's slow motion runs the game at this fraction of real time
+
+// "2 lives left", as announcements put it
+const livesLeft = (lives: number) => `${lives} ${lives === 1 ? 'life' : 'lives'} left`
+
+// Salt for the motivation stream, kept apart from the engine's so pop-ups never shift the board.
+const MOTIVATION_SALT = 0x6d6f7469
+
+interface GameProps {
+  playtestPack?: LevelPack // Plays these levels instead of the pack picker (the editor's play-test)
+  onExit?: () => void
 }
 
-export default function Game() {
+export default function Game({ playtestPack, onExit }: GameProps = {}) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   
   // Game State
-  const [gameState, setGameState] = useState<'menu' | 'playing' | 'level_transition' | 'won' | 'gameover'>('menu')
+  const [gameState, dispatch] = useReducer(transition, 'menu')
   const [score, setScore] = useState(0)
   const [level, setLevel] = useState(1)
-  const [lives, setLives] = useState(5)
+  const [lives, setLives] = useState(DIFFICULTY_PRESETS.normal.lives)
   const [message, setMessage] = useState('')
+  const [announcement, setAnnouncement] = useState('') // Read out by screen readers, since the canvas says nothing
   const [selectedCharacter, setSelectedCharacter] = useState(0)
+  const [partnerCharacter, setPartnerCharacter] = useState(1) // Player two's pick
+  const [pickingFor, setPickingFor] = useState(0) // Which player the character cards assign to
+  const [customFighters, setCustomFighters] = useState<Fighter[]>([]) // The player's own, read once mounted
+  const [showFighterCreator, setShowFighterCreator] = useState(false)
+  const [playMode, setPlayMode] = useState<PlayMode>('solo')
+  const [gameMode, setGameMode] = useState<GameMode>('campaign') // Split-screen games are always campaign
+  const [difficulty, setDifficulty] = useState<DifficultyChoice>(DEFAULT_DIFFICULTY)
+  const [slowMotion, setSlowMotion] = useState(false) // Assist mode only
+  const [daily, setDaily] = useState<{ date: string; result: DailyResult | null } | null>(null) // Today's, read once mounted
+  const [playerScores, setPlayerScores] = useState<number[]>([0])
+  const [rival, setRival] = useState({ score: 0, lives: DIFFICULTY_PRESETS.normal.lives }) // Player two's board in versus
+  const [roundWins, setRoundWins] = useState([0, 0])
+  const [roundWinner, setRoundWinner] = useState<number | null>(null)
+  const [levelBonus, setLevelBonus] = useState<LevelBonus | null>(null) // Breakdown for the transition screen
+  const [room, setRoom] = useState<OnlineRoom | null>(null)
+  const [opponent, setOpponent] = useState<string | null>(null)
+  const [onlineError, setOnlineError] = useState('')
   const [lostBall, setLostBall] = useState(false)
-  const [isMuted, setIsMuted] = useState(false)
+  const [buried, setBuried] = useState(false) // Endless: the bricks reached the paddle
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS)
+  const [showSettings, setShowSettings] = useState(false)
+  const [reduceMotion, setReduceMotion] = useState(false) // From Settings or, left to the system, the browser
+  const [seed, setSeed] = useState<number | null>(null)
+  const [levelPack, setLevelPack] = useState<LevelPack>(playtestPack ?? DEFAULT_LEVEL_PACK)
+  const [packList, setPackList] = useState<LevelPackInfo[]>([])
+  const [selectedPack, setSelectedPack] = useState('classic')
+  const [packError, setPackError] = useState('')
+  const [showHistory, setShowHistory] = useState(false)
+  const [lastRun, setLastRun] = useState<{ run: RunRecord; rank: number | null } | null>(null)
+  const [savedRun, setSavedRun] = useState<Snapshot | null>(null)
+  const [bindings, setBindings] = useState<Bindings[]>([defaultBindings(0), defaultBindings(1)])
+  const [showControls, setShowControls] = useState(false)
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null)
+  const [watching, setWatching] = useState<Replay | null>(null)
+  const [replayIssues, setReplayIssues] = useState<string[]>([])
+  const [replayError, setReplayError] = useState('')
+  const [replayPosition, setReplayPosition] = useState(0)
+  const [replaySpeed, setReplaySpeed] = useState(1)
+  const [replayPaused, setReplayPaused] = useState(false)
   
   // Refs
-  const ballsRef = useRef<Ball[]>([])
-  const paddleRef = useRef<Paddle>({ x: 0, y: 0, width: 100, height: 15, color: COLORS.paddle })
-  const bricksRef = useRef<Brick[]>([])
-  const particlesRef = useRef<Particle[]>([])
-  const powerUpsRef = useRef<PowerUp[]>([])
+  const gamesRef = useRef<GameState[]>([]) // One board, or two side by side in versus
+  const effectsRef = useRef<Effects[]>([])
+  const playModeRef = useRef<PlayMode>('solo')
+  const bindingsRef = useRef<Bindings[]>([defaultBindings(0), defaultBindings(1)])
+  const inputsRef = useRef([0, 1].map(player => createInputController(() => playerBindings(player), player)))
+  const timersRef = useRef(createTimers()) // Game-time timers, frozen while paused
+  // What the current run plays and counts as, whatever the menu has picked since
+  const runRef = useRef<{ mode: GameMode; packId: string; pack: LevelPack; dailyAttempt: string | null }>(
+    { mode: 'campaign', packId: 'classic', pack: DEFAULT_LEVEL_PACK, dailyAttempt: null })
+  const levelStartRef = useRef([{ score: 0, lives: DIFFICULTY_PRESETS.normal.lives, playerScores: [0] }]) // Per board, what "restart level" goes back to
+  const settingsRef = useRef<Settings>(DEFAULT_SETTINGS) // Read by the game loop and sounds without restarting anything
+  const effectLevelsRef = useRef<EffectLevels>(effectLevels(DEFAULT_SETTINGS, false)) // Likewise, with reduced motion applied
+  const slowMotionRef = useRef(false) // Read by the game loop without restarting it
+  const roundDecidedRef = useRef(false) // Versus: someone already took this round
+  const relayRef = useRef<RelayClient | null>(null)
+  const onPeerMessageRef = useRef<(message: PeerMessage) => void>(() => {})
+  const handleEventsRef = useRef<(board: number, game: GameState, events: GameEvent[]) => void>(() => {})
+  const lastBoardAtRef = useRef(0) // When the opponent's board last arrived, for smoothing it
+  const recorderRef = useRef<ReplayRecorder | null>(null) // Solo and co-op runs are recorded
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null)
+  const motivationRngRef = useRef<() => number>(Math.random)
   const requestRef = useRef<number | null>(null)
-  const characterImageRef = useRef<HTMLImageElement | null>(null)
-  const holeRef = useRef<{x: number, y: number}>({ x: 0, y: 0 })
-  const shakeRef = useRef(0)
+  const characterImagesRef = useRef(new Map<string, HTMLImageElement>()) // By fighter name
   
-  // Audio Refs
-  const audioContextRef = useRef<AudioContext | null>(null)
-  const songRef = useRef<HTMLAudioElement | null>(null)
+  const audioRef = useRef(createAudioManager())
 
-  // --- Audio System ---
+  // --- Audio ---
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      songRef.current = new Audio('/assets/sweat.mp3') // User needs to add this file
-      songRef.current.loop = false
-    }
-    
-    return () => {
-      if (songRef.current) {
-        songRef.current.pause()
-        songRef.current = null
-      }
-      if (audioContextRef.current) {
-        audioContextRef.current.close()
-      }
-    }
+    const audio = audioRef.current
+    audio.attach()
+    return () => audio.close()
   }, [])
 
-  const playSound = (type: 'hit' | 'paddle' | 'powerup' | 'win' | 'lose') => {
-    if (isMuted) return
-    
-    if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)()
-    }
+  const playSound = (sound: SoundName) => audioRef.current.play(sound)
+
+  // The background music plays under live play only; the level transition has its own song
+  useEffect(() => {
+    if (gameState === 'playing') audioRef.current.startMusic()
+    else audioRef.current.stopMusic()
+  }, [gameState])
 
-    const ctx = audioContextRef.current
-    const osc = ctx.createOscillator()
-    const gain = ctx.createGain()
+  // --- Settings ---
+
+  // Everything applies live: the loop reads the ref, the rest is pushed out here
+  const applySettings = (next: Settings) => {
+    const reduced = reducedMotion(next)
+    settingsRef.current = next
+    effectLevelsRef.current = effectLevels(next, reduced)
+    setSettings(next)
+    setReduceMotion(reduced)
+    setTheme(next.theme)
+    setHealthPatterns(next.healthPatterns)
+    inputsRef.current.forEach(input => { input.sensitivity = next.sensitivity })
+    audioRef.current.setVolumes(audioVolumes(next))
+  }
 
-    osc.connect(gain)
-    gain.connect(ctx.destination)
+  useEffect(() => applySettings(loadSettings()), [])
 
-    const now = ctx.currentTime
+  // Reduced motion may be following the system's preference, which can change while we're open
+  useEffect(() => {
+    const query = window.matchMedia('(prefers-reduced-motion: reduce)')
+    const onChange = () => applySettings(settingsRef.current)
+    query.addEventListener('change', onChange)
+    return () => query.removeEventListener('change', onChange)
+  }, [])
 
-    switch (type) {
-      case 'hit':
-        osc.type = 'sine'
-        osc.frequency.setValueAtTime(400, now)
-        osc.frequency.exponentialRampToValueAtTime(0.01, now + 0.1)
-        gain.gain.setValueAtTime(0.3, now)
-        gain.gain.exponentialRampToValueAtTime(0.01, now + 0.1)
-        osc.start(now)
-        osc.stop(now + 0.1)
-        break
-      case 'paddle':
-        osc.type = 'square'
-        osc.frequency.setValueAtTime(200, now)
-        osc.frequency.exponentialRampToValueAtTime(0.01, now + 0.1)
-        gain.gain.setValueAtTime(0.2, now)
-        gain.gain.exponentialRampToValueAtTime(0.01, now + 0.1)
-        osc.start(now)
-        osc.stop(now + 0.1)
-        break
-      case 'powerup':
-        osc.type = 'triangle'
-        osc.frequency.setValueAtTime(300, now)
-        osc.frequency.linearRampToValueAtTime(600, now + 0.1)
-        gain.gain.setValueAtTime(0.2, now)
-        gain.gain.linearRampToValueAtTime(0.01, now + 0.2)
-        osc.start(now)
-        osc.stop(now + 0.2)
-        break
-      case 'lose':
-        osc.type = 'sawtooth'
-        osc.frequency.setValueAtTime(100, now)
-        osc.frequency.exponentialRampToValueAtTime(0.01, now + 0.3)
-        gain.gain.setValueAtTime(0.3, now)
-        gain.gain.exponentialRampToValueAtTime(0.01, now + 0.3)
-        osc.start(now)
-        osc.stop(now + 0.3)
-        break
+  const changeSettings = (next: Settings) => {
+    applySettings(next)
+    saveSettings(next)
+  }
+
+  // --- Input ---
+
+  // With two players on one keyboard, player one gives up whatever keys player two uses
+  function playerBindings(player: number): Bindings {
+    const [one, two] = bindingsRef.current
+    if (player === 1) return two
+    return playModeRef.current === 'solo' ? one : withoutConflicts(one, two)
+  }
+
+  useEffect(() => {
+    const saved = [loadBindings(0), loadBindings(1)]
+    bindingsRef.current = saved
+    setBindings(saved)
+
+    const inputs = inputsRef.current
+    inputs.forEach(input => input.attach())
+    return () => inputs.forEach(input => input.detach())
+  }, [])
+
+  const changeBindings = useCallback((player: number, next: Bindings) => {
+    const all = bindingsRef.current.map((b, i) => i === player ? next : b)
+    bindingsRef.current = all
+    setBindings(all)
+    saveBindings(next, player)
+  }, [])
+
+  const changePlayMode = (mode: PlayMode) => {
+    if (mode !== 'online') leaveRoom()
+    playModeRef.current = mode
+    setPlayMode(mode)
+    setPickingFor(0)
+  }
+
+  // Versus splits the canvas down the middle
+  const boardWidth = (canvasWidth: number) => playModeRef.current === 'versus' ? canvasWidth / 2 : canvasWidth
+
+  /**
+   * Where board `board` sits on the canvas. Online boards have a fixed size
+   * (so both players share a layout) and are scaled into their half.
+   */
+  const boardView = (board: number, game: GameState, canvasWidth: number, canvasHeight: number) => {
+    const mode = playModeRef.current
+    if (mode === 'versus') return { left: board * game.width, top: 0, scale: 1 }
+    if (mode !== 'online') return { left: 0, top: 0, scale: 1 }
+
+    const half = canvasWidth / 2
+    const scale = Math.min(half / game.width, canvasHeight / game.height)
+    return {
+      left: board * half + (half - game.width * scale) / 2,
+      top: (canvasHeight - game.height * scale) / 2,
+      scale,
     }
   }
 
@@ -223,12 +277,9 @@ export default function Game() {
         canvasRef.current.height = clientHeight
       }
       
-      if (paddleRef.current.x > clientWidth) {
-        paddleRef.current.x = clientWidth / 2 - paddleRef.current.width / 2
-      }
-      
-      if (gameState === 'playing') {
-         holeRef.current.x = Math.min(Math.max(holeRef.current.x, 50), clientWidth - 50)
+      if (gameState === 'playing' && playModeRef.current !== 'online') {
+        gamesRef.current.forEach(game => resizeGame(game, boardWidth(clientWidth), clientHeight))
+        recorderRef.current?.mark({ type: 'resize', width: boardWidth(clientWidth), height: clientHeight })
       }
     }
   }, [gameState])
@@ -241,221 +292,668 @@ export default function Game() {
 
   // --- Game Logic ---
 
-  const getBrickColor = (health: number) => {
-    return COLORS.brickColors[(health - 1) % COLORS.brickColors.length]
+  // Built-in fighters first, then the player's own; picks are indexes into this
+  const characters = [...BUILT_IN_FIGHTERS, ...customFighters]
+
+  useEffect(() => setCustomFighters(loadFighters()), [])
+
+  // Load Character Images (both players may need one), including custom fighters as they're added
+  useEffect(() => {
+    [...BUILT_IN_FIGHTERS, ...customFighters].forEach(char => {
+      if (characterImagesRef.current.has(char.name)) return
+      const img = new Image()
+      img.src = char.image
+      img.onload = () => { characterImagesRef.current.set(char.name, img) }
+    })
+  }, [customFighters])
+
+  const playerSkin = (character: number): PlayerSkin => ({
+    ballImage: characterImagesRef.current.get(characters[character].name) ?? null,
+    ballColor: characters[character].color,
+  })
+
+  const addFighter = (fighter: Fighter) => {
+    const next = [...customFighters, fighter]
+    if (!saveFighters(next)) return false
+    setCustomFighters(next)
+    ;(pickingFor === 0 ? setSelectedCharacter : setPartnerCharacter)(BUILT_IN_FIGHTERS.length + next.length - 1)
+    setShowFighterCreator(false)
+    return true
+  }
+
+  // Picks past the removed fighter shift down one; picks of it fall back to the first fighter
+  const removeFighter = (index: number) => {
+    const next = customFighters.filter((_, i) => BUILT_IN_FIGHTERS.length + i !== index)
+    if (!saveFighters(next)) return
+    const shift = (pick: number) => pick === index ? 0 : pick > index ? pick - 1 : pick
+    characterImagesRef.current.delete(characters[index].name)
+    setCustomFighters(next)
+    setSelectedCharacter(shift)
+    setPartnerCharacter(shift)
   }
 
-  const resetBallAndPaddle = (currentLevel: number) => {
-    const canvas = canvasRef.current
-    if (!canvas) return
-    
-    ballsRef.current = [{
-      x: canvas.width / 2,
-      y: canvas.height - 100,
-      dx: 0,
-      dy: 0,
-      radius: 12,
-      image: characterImageRef.current,
-      isAttached: true,
-      offsetX: 0
-    }]
-    
-    paddleRef.current = {
-      x: (canvas.width - 100) / 2,
-      y: canvas.height - 60,
-      width: Math.max(60, 100 - (currentLevel * 5)),
-      height: 15,
-      color: COLORS.paddle,
-      isSticky: false
+  // --- Level Packs ---
+  useEffect(() => {
+    if (playtestPack) return
+    fetchLevelPackIndex()
+      .then(setPackList)
+      .catch(e => console.log("Level pack index failed", e))
+
+    // ?pack=curated picks a pack straight from a link
+    // ...and ?mode=endless or ?mode=daily picks the mode (the Hall of Holes links to endless runs)
+    const params = new URLSearchParams(window.location.search)
+    const fromUrl = params.get('pack')
+    if (fromUrl) setSelectedPack(fromUrl)
+    const modeFromUrl = params.get('mode')
+    if (modeFromUrl === 'endless' || modeFromUrl === 'daily') setGameMode(modeFromUrl)
+  }, [])
+
+  useEffect(() => {
+    if (playtestPack) {
+      setLevelPack(playtestPack)
+      return
     }
-    
-    powerUpsRef.current = []
+    let cancelled = false
+    fetchLevelPack(selectedPack)
+      .then(pack => {
+        if (cancelled) return
+        setLevelPack(pack)
+        setPackError('')
+      })
+      .catch(e => {
+        if (cancelled) return
+        console.error(e)
+        setLevelPack(DEFAULT_LEVEL_PACK)
+        setPackError(`${(e as Error).message}\nFalling back to the classic levels.`)
+      })
+    return () => { cancelled = true }
+  }, [selectedPack, playtestPack])
+
+  // --- Save & Resume ---
+  useEffect(() => {
+    if (gameState === 'menu' && !playtestPack) setSavedRun(loadSnapshot())
+  }, [gameState, playtestPack])
+
+  useEffect(() => setLastReplay(loadLastReplay()), [])
+
+  useEffect(() => setDifficulty(loadDifficulty()), [])
+
+  const changeDifficulty = (choice: DifficultyChoice) => {
+    setDifficulty(choice)
+    saveDifficulty(choice)
   }
 
-  const initGame = (currentLevel: number) => {
-    const canvas = canvasRef.current
-    if (!canvas) return
+  // Online matches and the daily are the same game for everyone: normal, no assist
+  const fixedDifficulty = (mode: GameMode) => playMode === 'online' || (mode === 'daily' && !isSplitScreen(playMode))
 
-    resetBallAndPaddle(currentLevel)
+  const changeSlowMotion = (on: boolean) => {
+    slowMotionRef.current = on
+    setSlowMotion(on)
+  }
 
-    const holeX = Math.random() * (canvas.width - 100) + 50
-    holeRef.current = { x: holeX, y: 60 }
+  // Re-read on the way back to the menu, in case the date has turned over
+  useEffect(() => {
+    if (gameState !== 'menu') return
+    const date = dailyKey()
+    setDaily({ date, result: loadDailyResult(date) })
+  }, [gameState])
 
-    const brickWidth = canvas.width < 500 ? 40 : 60
-    const brickHeight = 25
-    const brickPadding = 5
-    const brickOffsetTop = 120
-    
-    const brickColumnCount = Math.floor((canvas.width - 20) / (brickWidth + brickPadding))
-    const brickRowCount = 6 + currentLevel
-
-    const newBricks: Brick[] = []
-    const totalRowWidth = brickColumnCount * (brickWidth + brickPadding) - brickPadding
-    const startX = (canvas.width - totalRowWidth) / 2
-
-    for (let c = 0; c < brickColumnCount; c++) {
-      for (let r = 0; r < brickRowCount; r++) {
-        const x = startX + (c * (brickWidth + brickPadding))
-        const y = (r * (brickHeight + brickPadding)) + brickOffsetTop
-
-        const distToHole = Math.sqrt(Math.pow(x - holeRef.current.x, 2) + Math.pow(y - holeRef.current.y, 2))
-        if (distToHole < 60) continue;
-
-        let type: 'normal' | 'unbreakable' = 'normal'
-        let health = 1
-        let maxHealth = 1
-
-        if (r > 1 && Math.random() < 0.05) {
-          type = 'unbreakable'
-          health = 999
-          maxHealth = 999
-        } else {
-          const rand = Math.random()
-          if (currentLevel > 2 && rand < 0.2) health = 3
-          else if (currentLevel > 1 && rand < 0.4) health = 2
-          else if (currentLevel > 3 && rand < 0.1) health = 4
-          else health = 1
-          maxHealth = health
-        }
+  const snapshotContext = () => ({
+    character: characters[selectedCharacter].name,
+    packId: runRef.current.packId,
+    pack: runRef.current.pack,
+  })
 
-        newBricks.push({
-          x,
-          y,
-          width: brickWidth,
-          height: brickHeight,
-          status: 1,
-          color: type === 'unbreakable' ? COLORS.unbreakable : getBrickColor(health),
-          health,
-          maxHealth,
-          type
-        })
-      }
+  // Snapshot whenever the page might be going away mid-level (solo runs only)
+  useEffect(() => {
+    if ((gameState !== 'playing' && gameState !== 'paused') || playtestPack || playMode !== 'solo') return
+
+    const save = () => {
+      const game = gamesRef.current[0]
+      if (game && game.status === 'playing' && runRef.current.mode === 'campaign') saveSnapshot(game, snapshotContext())
     }
-    bricksRef.current = newBricks
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') save()
+    }
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    window.addEventListener('pagehide', save)
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+      window.removeEventListener('pagehide', save)
+    }
+  }, [gameState, playtestPack, playMode, selectedCharacter, selectedPack, levelPack])
+
+  const continueGame = () => {
+    const canvas = canvasRef.current
+    const snapshot = loadSnapshot()
+    if (!canvas || !snapshot) return
+
+    const game = snapshot.game
+    changePlayMode('solo')
+    fitToPlayfield(game, canvas.width, canvas.height)
+    gamesRef.current = [game]
+    runRef.current = { mode: 'campaign', packId: snapshot.packId, pack: snapshot.pack, dailyAttempt: null }
+    recorderRef.current = createRecorder(game, { characters: [snapshot.character], packId: snapshot.packId, pack: snapshot.pack })
+    motivationRngRef.current = createRng(deriveSeed(game.seed, MOTIVATION_SALT))
+    effectsRef.current = [createEffects()]
+    inputsRef.current.forEach(input => input.reset())
+
+    const character = characters.findIndex(c => c.name === snapshot.character)
+    setSelectedCharacter(Math.max(0, character))
+    setSelectedPack(snapshot.packId)
+    setLevelPack(snapshot.pack)
+    timersRef.current.clear()
+    levelStartRef.current = [{ score: game.score, lives: game.lives, playerScores: [...game.playerScores] }]
+    dispatch('start')
+    setScore(game.score)
+    setPlayerScores([...game.playerScores])
+    setLevel(game.level)
+    setLives(game.lives)
+    setSeed(game.seed)
+    setLastRun(null)
+    setBuried(false)
+    changeSlowMotion(false)
   }
 
-  // Load Character Image
-  useEffect(() => {
-    const img = new Image()
-    img.src = CHARACTERS[selectedCharacter].image
-    img.onload = () => {
-      characterImageRef.current = img
-      ballsRef.current.forEach(ball => ball.image = img)
+  /** `online` carries the seed and pack the host picked; the host passes its own. */
+  const startGame = (online?: { seed: number; pack: LevelPack }) => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    // Only solo campaign runs are saved, so anything else leaves the saved one alone
+    const mode: GameMode = isSplitScreen(playMode) || playtestPack ? 'campaign' : gameMode
+    if (playMode === 'solo' && mode === 'campaign') clearSnapshot()
+
+    // The first solo run at today's daily is the scored one; it counts from the start, so quitting doesn't get another go
+    const today = dailyKey()
+    const dailyAttempt = mode === 'daily' && playMode === 'solo' && !loadDailyResult(today) ? today : null
+
+    // ?seed=1234 replays a shared board, otherwise every run gets a fresh one; the daily's comes from the date
+    const runSeed = online?.seed ?? (mode === 'daily' ? dailySeed(today)
+      : parseSeed(new URLSearchParams(window.location.search).get('seed')) ?? randomSeed())
+    const pack = online?.pack ?? (mode === 'daily' ? dailyPack(today) : mode === 'endless' ? ENDLESS_PACK : levelPack)
+    const packId = mode === 'daily' ? DAILY_PACK_ID : mode === 'endless' ? ENDLESS_PACK_ID : playtestPack ? 'playtest' : selectedPack
+    runRef.current = { mode, packId, pack, dailyAttempt }
+    const width = boardWidth(canvas.width)
+    const options = fixedDifficulty(mode) ? {} : { difficulty: difficultySettings(difficulty), assist: difficulty.assist }
+
+    if (playMode === 'online' && !online) {
+      if (!room?.hasPeer || room.player !== 0) return
+      relayRef.current?.send({ type: 'start', seed: runSeed, packId: selectedPack, pack })
     }
-    img.onerror = () => { characterImageRef.current = null }
-  }, [selectedCharacter])
 
-  const startGame = () => {
-    setGameState('playing')
+    // Versus boards share the seed, so both players race the same layout.
+    // Online, the second board is our copy of the opponent's, kept up to date from theirs.
+    gamesRef.current = playMode === 'online'
+      ? [0, 1].map(() => createGame(ONLINE_BOARD.width, ONLINE_BOARD.height, runSeed, pack.levels[0]))
+      : playMode === 'versus'
+      ? [0, 1].map(() => createGame(width, canvas.height, runSeed, pack.levels[0], 1, options))
+      : [createGame(width, canvas.height, runSeed, pack.levels[0], playerCount(playMode), options)]
+    if (mode === 'endless') startEndless(gamesRef.current[0])
+    saveDailyProgress(gamesRef.current[0], false)
+    // Split-screen races aren't recorded: replays play back one board
+    recorderRef.current = isSplitScreen(playMode) ? null : createRecorder(gamesRef.current[0], {
+      characters: [selectedCharacter, partnerCharacter].slice(0, playerCount(playMode)).map(char => characters[char].name),
+      packId,
+      pack,
+    })
+    effectsRef.current = gamesRef.current.map(() => createEffects())
+    levelStartRef.current = gamesRef.current.map(game => ({ score: 0, lives: game.lives, playerScores: [...game.playerScores] }))
+    roundDecidedRef.current = false
+    timersRef.current.clear()
+    motivationRngRef.current = createRng(deriveSeed(runSeed, MOTIVATION_SALT))
+    inputsRef.current.forEach(input => input.reset())
+    setMessage('')
+    dispatch('start')
     setScore(0)
+    setPlayerScores(Array(playerCount(playMode)).fill(0))
+    setRival({ score: 0, lives: gamesRef.current[0].lives })
+    setRoundWins([0, 0])
+    setRoundWinner(null)
+    setLevelBonus(null)
+    setBuried(false)
     setLevel(1)
-    setLives(5)
-    setTimeout(() => initGame(1), 50)
+    setLives(gamesRef.current[0].lives)
+    setAnnouncement(`Level 1. ${livesLeft(gamesRef.current[0].lives)}.`)
+    setSeed(runSeed)
+    setLastRun(null)
+    setOnlineError('')
+    changeSlowMotion(false)
   }
 
-  const launchBalls = () => {
-    ballsRef.current.forEach(ball => {
-      if (ball.isAttached) {
-        ball.isAttached = false
-        ball.dy = -(4 + level * 0.5)
-        ball.dx = (Math.random() - 0.5) * 8
-      }
+  // Every finished run goes into the history; initials can be fixed up on the end screen
+  const recordRun = (game: GameState, won: boolean) => {
+    const { mode, packId, dailyAttempt } = runRef.current
+    if (dailyAttempt) saveDailyProgress(game, true, won)
+    // Daily practice runs don't count
+    if (playtestPack || playMode !== 'solo' || (mode === 'daily' && !dailyAttempt)) return
+    if (mode === 'campaign') clearSnapshot()
+    const run = saveRun({
+      initials: lastInitials(),
+      character: characters[selectedCharacter].name,
+      mode,
+      difficulty: presetOf(game.difficulty),
+      assist: game.assist,
+      pack: packId,
+      score: game.score,
+      level: game.level,
+      lives: game.lives,
+      won,
+      seed: game.seed,
+      bricksBroken: game.stats.bricksBroken,
+      powerUpsCaught: game.stats.powerUpsCaught,
     })
+    setLastRun({ run, rank: rankOf(loadRecords().runs, run) })
+  }
+
+  /** Keeps today's scored daily attempt up to date, so leaving mid-run still leaves how far it got. */
+  const saveDailyProgress = (game: GameState, finished: boolean, won = false) => {
+    const { dailyAttempt, pack } = runRef.current
+    if (!dailyAttempt) return
+    const result: DailyResult = {
+      date: dailyAttempt,
+      score: game.score,
+      level: game.level,
+      levels: pack.levels.length,
+      won,
+      time: game.stats.playTime,
+      grid: boardGrid(pack.levels[game.level - 1], game),
+      finished,
+    }
+    saveDailyResult(result)
+    setDaily({ date: dailyAttempt, result })
+  }
+
+  // Ends the recording; the latest run stays in storage for "Watch last replay"
+  const finishReplay = (game: GameState) => {
+    const recorder = recorderRef.current
+    if (!recorder) return
+    recorderRef.current = null
+    const replay = recorder.finish(game)
+    setLastReplay(replay)
+    saveLastReplay(replay)
   }
 
   const triggerLevelTransition = () => {
-    setGameState('level_transition')
+    const current = gamesRef.current[0]
+    const { pack, mode } = runRef.current
+    if (current && current.level < pack.levels.length && !playtestPack && playMode === 'solo' && mode === 'campaign') {
+      // Save the next level as it will start, so quitting during the transition loses nothing
+      const next: GameState = JSON.parse(JSON.stringify(current))
+      loadLevel(next, next.level + 1, pack.levels[next.level])
+      saveSnapshot(next, snapshotContext())
+    }
+
+    dispatch('complete_level')
     setMessage("PUSH IT!")
     
-    if (songRef.current && !isMuted) {
-      songRef.current.currentTime = 0
-      songRef.current.play().catch(e => console.log("Audio play failed", e))
-    }
+    audioRef.current.playSong()
     
-    setTimeout(() => {
+    timersRef.current.after(4000, () => {
+      const games = gamesRef.current
+      const game = games[0]
       setMessage('')
-      if (songRef.current) songRef.current.pause()
+      setRoundWinner(null)
+      setLevelBonus(null)
+      audioRef.current.stopSong()
+      if (!game) return
       
-      if (level >= 5) {
-        setGameState('won')
-        confetti({ particleCount: 200, spread: 160, origin: { y: 0.6 } })
+      if (game.level >= pack.levels.length) {
+        recordRun(game, true)
+        finishReplay(game)
+        dispatch('win')
+        playSound('win')
+        setAnnouncement(isSplitScreen(playMode) ? 'Match over.' : `You conquered the hole! Final score ${game.score}.`)
+        if (!reducedMotion(settingsRef.current)) confetti({ particleCount: 200, spread: 160, origin: { y: 0.6 } })
       } else {
-        setLevel(prev => prev + 1)
-        setGameState('playing')
-        initGame(level + 1)
+        games.forEach(board => {
+          loadLevel(board, board.level + 1, pack.levels[board.level])
+          // Every versus round starts both players on full lives
+          if (isSplitScreen(playMode)) board.lives = board.difficulty.lives
+        })
+        recorderRef.current?.mark({ type: 'level', level: game.level })
+        levelStartRef.current = games.map(board => ({ score: board.score, lives: board.lives, playerScores: [...board.playerScores] }))
+        roundDecidedRef.current = false
+        setLevel(game.level)
+        setLives(game.lives)
+        setAnnouncement(`Level ${game.level}. ${livesLeft(game.lives)}, score ${game.score}.`)
+        setRival(rival => ({ ...rival, lives: games[1]?.lives ?? rival.lives }))
+        saveDailyProgress(game, false)
+        dispatch('next_level')
       }
-    }, 4000)
+    })
   }
 
-  const spawnPowerUp = (x: number, y: number) => {
-      if (Math.random() > 0.2) return
+  // Versus: first to their hole takes the round; running out of lives hands it over
+  const finishRound = (winner: number) => {
+    if (roundDecidedRef.current) return
+    roundDecidedRef.current = true
+    gamesRef.current.forEach(board => board.status = 'level_complete')
+    setRoundWins(wins => wins.map((w, i) => i === winner ? w + 1 : w))
+    setRoundWinner(winner)
+    setAnnouncement(`${characters[winner === 0 ? selectedCharacter : partnerCharacter].name} takes the round.`)
+    triggerLevelTransition()
+  }
 
-      const types: PowerUp['type'][] = ['blue_balls', 'jizztime', 'girthy', 'clingy', 'penetrator']
-      const rand = Math.random()
-      let type: PowerUp['type'] = 'blue_balls'
-      
-      if (rand < 0.3) type = 'blue_balls'
-      else if (rand < 0.5) type = 'jizztime'
-      else if (rand < 0.7) type = 'girthy'
-      else if (rand < 0.85) type = 'clingy'
-      else type = 'penetrator'
-
-      powerUpsRef.current.push({
-          x,
-          y,
-          dy: 2.5,
-          type,
-          width: 30,
-          height: 30
-      })
+  // --- Online ---
+
+  // Online the host settles every round, so both screens agree on who got there first.
+  // `winner` here is absolute: 0 is the host.
+  const claimRound = (winner: number) => {
+    if (!room) return
+    const local = winner === room.player ? 0 : 1
+    if (room.player === 0) {
+      if (roundDecidedRef.current) return
+      relayRef.current?.send({ type: 'round', winner })
+      finishRound(local)
+    } else {
+      relayRef.current?.send({ type: 'claim', winner })
+    }
+  }
+
+  const leaveRoom = () => {
+    relayRef.current?.close()
+    relayRef.current = null
+    setRoom(null)
+    setOpponent(null)
+  }
+
+  const openRoom = (code?: string) => {
+    leaveRoom()
+    setOnlineError('')
+    const relay = createRelayClient(relayUrl(), {
+      onJoined: (joined, player) => setRoom({ code: joined, player, hasPeer: player > 0 }),
+      onPeerJoined: () => setRoom(r => r && { ...r, hasPeer: true }),
+      onPeerLeft: player => {
+        setRoom(r => r && { ...r, player, hasPeer: false })
+        setOpponent(null)
+        onPeerMessageRef.current({ type: 'quit' })
+      },
+      onMessage: message => onPeerMessageRef.current(message),
+      onError: setOnlineError,
+      onClose: () => {
+        onPeerMessageRef.current({ type: 'quit' })
+        setOnlineError('Lost the connection to the relay.')
+        relayRef.current = null
+        setRoom(null)
+      },
+    })
+    relayRef.current = relay
+    if (code) relay.join(code)
+    else relay.create()
+  }
+
+  useEffect(() => () => relayRef.current?.close(), [])
+
+  // Say who we're playing as whenever someone new arrives or we change character
+  useEffect(() => {
+    if (room?.hasPeer) relayRef.current?.send({ type: 'hello', character: characters[selectedCharacter].name })
+  }, [room?.hasPeer, selectedCharacter])
+
+  // Relay callbacks go through the ref, which a layout effect points at each render's handler
+  const onPeerMessage = (message: PeerMessage) => {
+    switch (message.type) {
+      case 'hello': {
+        const character = characters.findIndex(c => c.name === message.character)
+        setOpponent(message.character)
+        if (character !== -1) setPartnerCharacter(character)
+        break
+      }
+      case 'start': {
+        let pack: LevelPack
+        try {
+          pack = parseLevelPack(message.pack, 'from your opponent')
+        } catch (e) {
+          console.log("Rejected the opponent's level pack", e)
+          setOnlineError("Your opponent's levels couldn't be loaded, so the match didn't start.")
+          return
+        }
+        setLevelPack(pack)
+        if (gameState !== 'menu') dispatch('quit')
+        startGame({ seed: message.seed, pack })
+        break
+      }
+      case 'board': {
+        const mirror = gamesRef.current[1]
+        if (!mirror || !isRunning(gameState) && gameState !== 'paused') return
+        const { board } = message
+        const { pack } = runRef.current
+        if (board.level !== mirror.level && pack.levels[board.level - 1]) {
+          loadLevel(mirror, board.level, pack.levels[board.level - 1])
+        }
+        applyBoard(mirror, board)
+        lastBoardAtRef.current = performance.now()
+        setRival({ score: board.score, lives: board.lives })
+        break
+      }
+      case 'claim':
+        if (room?.player === 0) claimRound(message.winner)
+        break
+      case 'round':
+        if (room) finishRound(message.winner === room.player ? 0 : 1)
+        break
+      case 'quit':
+        if (gameState !== 'menu') {
+          setOnlineError('Your opponent left the match.')
+          timersRef.current.clear()
+          setMessage('')
+          dispatch('quit')
+        }
+        break
+    }
+  }
+  useLayoutEffect(() => { onPeerMessageRef.current = onPeerMessage })
+
+  // --- Pause ---
+
+  const pauseGame = () => dispatch('pause')
+
+  const resumeGame = () => {
+    setShowControls(false)
+    setShowSettings(false)
+    dispatch('resume')
   }
 
-  const activatePowerUp = (type: PowerUp['type']) => {
-      const canvas = canvasRef.current
-      if (!canvas || ballsRef.current.length === 0) return
+  const restartLevel = () => {
+    const games = gamesRef.current
+    if (games.length === 0) return
+    games.forEach((game, i) => {
+      const start = levelStartRef.current[i]
+      game.score = start.score
+      game.playerScores = [...start.playerScores]
+      game.lives = start.lives
+      // An endless run has no levels to go back to, so it starts over
+      if (game.endless) startEndless(game)
+      else loadLevel(game, game.level, runRef.current.pack.levels[game.level - 1])
+    })
+    recorderRef.current?.mark({ type: 'restart', ...levelStartRef.current[0] })
+    effectsRef.current = games.map(() => createEffects())
+    roundDecidedRef.current = false
+    timersRef.current.clear()
+    setMessage('')
+    setScore(games[0].score)
+    setPlayerScores([...games[0].playerScores])
+    setLives(games[0].lives)
+    if (games[1]) setRival({ score: games[1].score, lives: games[1].lives })
+    dispatch('restart_level')
+  }
+
+  const quitGame = () => {
+    if (playMode === 'online') relayRef.current?.send({ type: 'quit' })
+    const game = gamesRef.current[0]
+    // Quitting mid-level keeps the run around for "Continue"
+    if (game && game.status === 'playing' && runRef.current.mode === 'campaign' && !playtestPack && playMode === 'solo') saveSnapshot(game, snapshotContext())
+    // ...but a quit daily attempt is over
+    if (game && game.status === 'playing') saveDailyProgress(game, true)
+    if (game) finishReplay(game)
+    timersRef.current.clear()
+    setMessage('')
+    setShowControls(false)
+    setShowSettings(false)
+    dispatch('quit')
+  }
+
+  // The pause binding (Esc / P / Start by default) toggles pause; losing focus pauses
+  useEffect(() => {
+    const togglePause = () => {
+      // Online there's nobody to pause the other player's side
+      if (showControls || showSettings || playMode === 'online') return
+      if (gameState === 'playing') pauseGame()
+      else if (gameState === 'paused') resumeGame()
+    }
+    const toggleSlowMotion = () => {
+      if (gamesRef.current[0]?.assist) changeSlowMotion(!slowMotionRef.current)
+    }
+    const players = playerCount(playMode)
+    inputsRef.current.forEach((input, player) => {
+      input.active = gameState === 'playing' && player < players
+      input.onPause = player < players ? togglePause : null
+      input.onSlowMotion = player < players ? toggleSlowMotion : null
+    })
+    return () => inputsRef.current.forEach(input => {
+      input.onPause = null
+      input.onSlowMotion = null
+    })
+  }, [gameState, showControls, showSettings, playMode])
+
+  useEffect(() => {
+    const onBlur = () => {
+      if (playModeRef.current !== 'online') dispatch('pause')
+    }
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden' && playModeRef.current !== 'online') dispatch('pause')
+    }
+    window.addEventListener('blur', onBlur)
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    return () => {
+      window.removeEventListener('blur', onBlur)
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+    }
+  }, [])
 
-      const baseBall = ballsRef.current[0]
-      playSound('powerup')
+  const showPowerUpMessage = (type: PowerUpType) => {
+    setMessage(`${POWER_UPS[type].label}!`)
+    timersRef.current.after(1500, () => setMessage(''))
+  }
 
-      switch(type) {
-        case 'blue_balls':
-          ballsRef.current.push({
-              x: baseBall.x, y: baseBall.y, dx: (Math.random() - 0.5) * 8, dy: -Math.abs(baseBall.dy),
-              radius: baseBall.radius, image: baseBall.image
-          })
-          setMessage("Blue Balls!")
+  // React to what the engine reports; the engine itself never touches React or audio.
+  // `board` is 1 only for player two's side in versus. The loop calls it through
+  // handleEventsRef, updated like onPeerMessageRef, so it sees the current room, roster and run.
+  const handleEvents = (board: number, game: GameState, events: GameEvent[]) => {
+    const versus = playMode === 'versus'
+    const online = playMode === 'online' && room !== null
+    const spoken: string[] = [] // Only our own board is read out
+    const say = (text: string) => { if (board === 0) spoken.push(text) }
+    const showLives = (lives: number) => board === 0 ? setLives(lives) : setRival(r => ({ ...r, lives }))
+    const showScore = () => {
+      if (board === 0) {
+        setScore(game.score)
+        setPlayerScores([...game.playerScores])
+      } else {
+        setRival(r => ({ ...r, score: game.score }))
+      }
+    }
+
+    events.forEach(event => {
+      switch (event.type) {
+        case 'brick_hit':
+          audioRef.current.brickHit()
+          break
+        case 'brick_exploded':
+          playSound('boom')
           break
-        case 'jizztime':
-          for(let i=0; i<2; i++) {
-            ballsRef.current.push({
-                x: baseBall.x, y: baseBall.y, dx: (Math.random() - 0.5) * 8, dy: -Math.abs(baseBall.dy),
-                radius: baseBall.radius, image: baseBall.image
-            })
+        case 'portal_used':
+          playSound('warp')
+          showScore()
+          break
+        case 'brick_destroyed':
+          audioRef.current.brickHit()
+          showScore()
+          if (motivationRngRef.current() < settingsRef.current.motivation) {
+            setMessage(pickMotivation(motivationRngRef.current))
+            timersRef.current.after(2000, () => setMessage(''))
           }
-          setMessage("Jizztime!")
           break
-        case 'girthy':
-          paddleRef.current.width = Math.min(canvas.width * 0.4, paddleRef.current.width * 1.5)
-          setMessage("Girthy!")
+        case 'paddle_hit':
+          playSound('paddle')
+          break
+        case 'powerup_caught':
+          audioRef.current.powerUp(event.powerUp)
+          showPowerUpMessage(event.powerUp)
+          showScore() // Hazards are worth points
+          say(`${POWER_UPS[event.powerUp].label} ${powerUpDefinition(event.powerUp).harmful ? 'hazard' : 'power-up'}.`)
+          break
+        case 'decoy_entered':
+          setMessage('Wrong hole!')
+          timersRef.current.after(1500, () => setMessage(''))
+          say('Wrong hole!')
+          break
+        case 'ball_lost':
+          setLostBall(true)
+          playSound('lose')
+          timersRef.current.after(200, () => setLostBall(false))
           break
-        case 'clingy':
-          paddleRef.current.isSticky = true
-          setMessage("Clingy!")
+        case 'life_lost':
+          showLives(event.lives)
+          if (event.lives > 0) say(`Ball lost. ${livesLeft(event.lives)}, score ${game.score}.`)
           break
-        case 'penetrator':
-          ballsRef.current.forEach(b => b.isThrough = true)
-          setMessage("Penetrator!")
-          setTimeout(() => {
-             ballsRef.current.forEach(b => b.isThrough = false)
-          }, 10000)
+        case 'ball_saved':
+          playSound('saved')
+          setMessage('Saved by the net!')
+          timersRef.current.after(1500, () => setMessage(''))
+          say('Saved by the net!')
+          break
+        case 'level_bonus':
+          showScore()
+          if (board === 0) setLevelBonus(event.bonus)
+          say(`Level ${game.level} cleared. Score ${game.score}.`)
+          break
+        case 'ball_sunk':
+          playSound('sunk')
+          showScore()
+          setMessage(`IN THE HOLE! +${event.points}`)
+          timersRef.current.after(1500, () => setMessage(''))
+          say(`In the hole! Plus ${event.points}.`)
+          break
+        case 'row_added':
+          setLevel(game.level)
+          if (endlessLevel(event.rows) !== endlessLevel(event.rows - 1)) say(`Level ${game.level}.`)
+          break
+        case 'bricks_landed':
+          setBuried(true)
+          say('Buried by the bricks!')
+          break
+        case 'hole_entered':
+        case 'board_cleared':
+          if (online) claimRound(room.player)
+          else if (versus) finishRound(board)
+          else triggerLevelTransition()
+          break
+        case 'game_over':
+          showLives(0)
+          say(`Game over. Final score ${game.score}.`)
+          if (online) {
+            claimRound(1 - room.player)
+            break
+          }
+          if (versus) {
+            finishRound(1 - board)
+            break
+          }
+          recordRun(game, false)
+          finishReplay(game)
+          dispatch('lose')
           break
       }
-      setTimeout(() => setMessage(''), 1500)
+    })
+    if (spoken.length > 0) setAnnouncement(spoken.join(' '))
   }
+  useLayoutEffect(() => { handleEventsRef.current = handleEvents })
 
   // --- Game Loop ---
   useEffect(() => {
-    if (gameState !== 'playing') {
+    // Keeps running while paused, only so a gamepad's Start button can resume
+    if (!isRunning(gameState) && gameState !== 'paused' && gameState !== 'replay') {
       if (requestRef.current) cancelAnimationFrame(requestRef.current)
       return
     }
@@ -464,310 +962,316 @@ export default function Game() {
     const ctx = canvas?.getContext('2d')
     if (!canvas || !ctx) return
 
-    const update = () => {
-      const paddle = paddleRef.current
-      const bricks = bricksRef.current
-      const hole = holeRef.current
-      const powerUps = powerUpsRef.current
+    let lastTime: number | null = null
+    let accumulator = 0
+
+    // Fixed-timestep loop: the simulation always advances in STEP_MS slices and
+    // rendering interpolates between the last two, so 60 Hz and 144 Hz play the same.
+    const inputs = inputsRef.current
+    const skins = [playerSkin(selectedCharacter), playerSkin(partnerCharacter)]
+    const versus = isSplitScreen(playMode)
+    const online = playMode === 'online'
+    let sinceBoardSent = 0
+
+    // Co-op feeds both players into the one board; versus gives each board its own player.
+    // Rounded so a replay can feed the engine exactly the same thing.
+    const boardInputs = (board: number): GameInput[] =>
+      (versus ? [inputs[board]] : inputs.slice(0, playerCount(playMode))).map(input => quantizeInput(input.read()))
+
+    const update = (now: number) => {
+      const games = gamesRef.current
+      if (games.length === 0) return
+
+      const frameTime = lastTime === null ? 0 : Math.min(now - lastTime, MAX_FRAME_MS)
+      lastTime = now
+      if (gameState === 'playing') accumulator += frameTime * (slowMotionRef.current ? SLOW_MOTION : 1)
+
+      inputs.forEach(input => input.update(frameTime))
+      if (gameState === 'paused') {
+        requestRef.current = requestAnimationFrame(update)
+        return
+      }
+      timersRef.current.tick(frameTime)
+
+      // Boards advance in lockstep and stop together, so a versus race is fair to the step.
+      // Online only our own board is simulated; the other follows the opponent's updates.
+      const simulated = online ? games.slice(0, 1) : games
+      const events: GameEvent[][] = games.map(() => [])
+      while (accumulator >= STEP_MS && simulated.every(game => game.status === 'playing') && gameState === 'playing') {
+        simulated.forEach((game, board) => {
+          const stepInputs = boardInputs(board)
+          recorderRef.current?.record(stepInputs)
+          events[board].push(...step(game, stepInputs, STEP_MS))
+        })
+        accumulator -= STEP_MS
+      }
 
-      // Screen Shake
-      if (shakeRef.current > 0) {
-        ctx.save()
-        const dx = (Math.random() - 0.5) * shakeRef.current
-        const dy = (Math.random() - 0.5) * shakeRef.current
-        ctx.translate(dx, dy)
-        shakeRef.current *= 0.9
-        if (shakeRef.current < 0.5) shakeRef.current = 0
+      sinceBoardSent += frameTime
+      if (online && sinceBoardSent >= BOARD_SEND_MS) {
+        sinceBoardSent = 0
+        relayRef.current?.send({ type: 'board', board: encodeBoard(games[0]) })
       }
 
-      // Clear
-      ctx.clearRect(-10, -10, canvas.width + 20, canvas.height + 20)
+      const alpha = Math.min(1, accumulator / STEP_MS)
+      const mirrorAlpha = Math.min(1, (performance.now() - lastBoardAtRef.current) / BOARD_SEND_MS)
+      ctx.clearRect(0, 0, canvas.width, canvas.height)
+      games.forEach((game, board) => {
+        const effects = effectsRef.current[board]
+        applyEvents(effects, events[board], effectLevelsRef.current)
+        updateEffects(effects, frameTime)
 
-      // Draw Hole
-      ctx.beginPath()
-      ctx.arc(hole.x, hole.y, 35, 0, Math.PI * 2)
-      ctx.fillStyle = COLORS.hole
-      ctx.fill()
-      ctx.strokeStyle = '#fbbf24'
-      ctx.lineWidth = 4
-      ctx.stroke()
-      ctx.fillStyle = '#fff'
-      ctx.font = 'bold 12px Arial'
-      ctx.textAlign = 'center'
-      ctx.fillText('BROWN HOLE', hole.x, hole.y + 5)
-      ctx.closePath()
-
-      // Draw Bricks
-      bricks.forEach(brick => {
-        if (brick.status === 1) {
-          ctx.beginPath()
-          ctx.roundRect(brick.x, brick.y, brick.width, brick.height, 4)
-          ctx.fillStyle = brick.type === 'unbreakable' ? COLORS.unbreakable : getBrickColor(brick.health)
-          ctx.fill()
-          ctx.fillStyle = 'rgba(255,255,255,0.1)'
-          ctx.fill()
-          
-          if (brick.type !== 'unbreakable' && brick.health > 1) {
-             ctx.fillStyle = 'rgba(255,255,255,0.8)'
-             ctx.font = '10px Arial'
-             ctx.fillText(brick.health.toString(), brick.x + brick.width/2, brick.y + brick.height/2 + 4)
-          }
-          ctx.closePath()
-        }
+        const view = boardView(board, game, canvas.width, canvas.height)
+        ctx.save()
+        ctx.translate(view.left, view.top)
+        ctx.scale(view.scale, view.scale)
+        ctx.beginPath()
+        ctx.rect(0, 0, game.width, game.height)
+        ctx.clip()
+        drawGame(ctx, game, effects, { players: versus ? [skins[board]] : skins }, online && board === 1 ? mirrorAlpha : alpha)
+        ctx.restore()
       })
 
-      // Draw Paddle
-      ctx.beginPath()
-      ctx.roundRect(paddle.x, paddle.y, paddle.width, paddle.height, 8)
-      ctx.fillStyle = paddle.isSticky ? COLORS.powerUps.clingy : paddle.color
-      ctx.fill()
-      ctx.shadowColor = 'rgba(0,0,0,0.2)'
-      ctx.shadowBlur = 10
-      ctx.shadowOffsetY = 5
-      ctx.closePath()
-      ctx.shadowColor = 'transparent'
-
-      // Draw PowerUps
-      for (let i = powerUps.length - 1; i >= 0; i--) {
-          const p = powerUps[i]
-          p.y += p.dy
-          
-          ctx.beginPath()
-          ctx.arc(p.x, p.y, 15, 0, Math.PI*2)
-          ctx.fillStyle = COLORS.powerUps[p.type] || '#fff'
-          ctx.fill()
-          ctx.strokeStyle = '#fff'
-          ctx.lineWidth = 2
-          ctx.stroke()
-          
-          ctx.fillStyle = '#fff'
-          ctx.font = 'bold 10px Arial'
-          ctx.textAlign = 'center'
-          let label = ''
-          switch(p.type) {
-            case 'blue_balls': label = 'BB'; break;
-            case 'jizztime': label = 'JT'; break;
-            case 'girthy': label = '<>'; break;
-            case 'clingy': label = 'U'; break;
-            case 'penetrator': label = '^'; break;
-          }
-          ctx.fillText(label, p.x, p.y + 4)
-          ctx.closePath()
-
-          if (
-              p.y + 15 >= paddle.y && 
-              p.y - 15 <= paddle.y + paddle.height &&
-              p.x >= paddle.x && 
-              p.x <= paddle.x + paddle.width
-          ) {
-              activatePowerUp(p.type)
-              powerUps.splice(i, 1)
-              continue
-          }
-          if (p.y > canvas.height) powerUps.splice(i, 1)
+      if (versus) {
+        ctx.fillStyle = activeTheme().paddle
+        ctx.fillRect(canvas.width / 2 - 1, 0, 2, canvas.height)
       }
+      games.forEach((game, board) => handleEventsRef.current(board, game, events[board]))
+      audioRef.current.setIntensity(musicIntensity(games[0]))
 
-      // Balls
-      for (let i = ballsRef.current.length - 1; i >= 0; i--) {
-          const ball = ballsRef.current[i]
+      requestRef.current = requestAnimationFrame(update)
+    }
 
-          if (ball.isAttached) {
-            ball.x = paddle.x + paddle.width/2 + (ball.offsetX || 0)
-            ball.y = paddle.y - ball.radius
-          } else {
-            ball.x += ball.dx
-            ball.y += ball.dy
-          }
+    // Replays drive the same engine from the recorded inputs, at any speed
+    let sinceShown = 0
+    const playback = (now: number) => {
+      const player = replayPlayerRef.current
+      if (!player || !watching) return
+
+      const frameTime = lastTime === null ? 0 : Math.min(now - lastTime, MAX_FRAME_MS)
+      lastTime = now
+      if (!replayPaused) accumulator += frameTime * replaySpeed
+      const steps = Math.floor(accumulator / STEP_MS)
+      accumulator -= steps * STEP_MS
+      const events = player.advance(steps)
+
+      const game = player.state
+      const effects = effectsRef.current[0]
+      applyEvents(effects, events, effectLevelsRef.current)
+      updateEffects(effects, frameTime)
+
+      // Scaled to fit, since the run may have been recorded on another screen
+      const scale = Math.min(canvas.width / game.width, canvas.height / game.height)
+      ctx.clearRect(0, 0, canvas.width, canvas.height)
+      ctx.save()
+      ctx.translate((canvas.width - game.width * scale) / 2, (canvas.height - game.height * scale) / 2)
+      ctx.scale(scale, scale)
+      ctx.beginPath()
+      ctx.rect(0, 0, game.width, game.height)
+      ctx.clip()
+      const picks = watching.characters.map(name => Math.max(0, characters.findIndex(c => c.name === name)))
+      drawGame(ctx, game, effects, { players: picks.map(playerSkin) }, replayPaused ? 1 : Math.min(1, accumulator / STEP_MS))
+      ctx.restore()
+
+      events.forEach(event => {
+        if (event.type === 'brick_hit' || event.type === 'brick_destroyed') audioRef.current.brickHit()
+        else if (event.type === 'brick_exploded') playSound('boom')
+        else if (event.type === 'portal_used') playSound('warp')
+        else if (event.type === 'paddle_hit') playSound('paddle')
+        else if (event.type === 'powerup_caught') audioRef.current.powerUp(event.powerUp)
+        else if (event.type === 'ball_lost') playSound('lose')
+        else if (event.type === 'ball_saved') playSound('saved')
+        else if (event.type === 'ball_sunk') playSound('sunk')
+      })
 
-          ctx.beginPath()
-          if (ball.image) {
-            ctx.save()
-            ctx.beginPath()
-            ctx.arc(ball.x, ball.y, ball.radius, 0, Math.PI * 2)
-            ctx.closePath()
-            ctx.clip()
-            ctx.drawImage(ball.image, ball.x - ball.radius, ball.y - ball.radius, ball.radius * 2, ball.radius * 2)
-            ctx.restore()
-          } else {
-            ctx.arc(ball.x, ball.y, ball.radius, 0, Math.PI * 2)
-            ctx.fillStyle = CHARACTERS[selectedCharacter].color
-            ctx.fill()
-          }
-          if (ball.isThrough) {
-             ctx.strokeStyle = '#ef4444'
-             ctx.lineWidth = 2
-             ctx.stroke()
-          }
-          ctx.closePath()
+      // The HUD and scrubber only need a few updates a second
+      sinceShown += frameTime
+      if (sinceShown >= 100 || player.position === player.total) {
+        sinceShown = 0
+        setReplayPosition(player.position)
+        setScore(game.score)
+        setPlayerScores([...game.playerScores])
+        setLevel(game.level)
+        setLives(game.lives)
+      }
+      if (player.position === player.total) setReplayPaused(true)
 
-          if (ball.isAttached) continue
+      requestRef.current = requestAnimationFrame(playback)
+    }
 
-          const distToHole = Math.sqrt(Math.pow(ball.x - hole.x, 2) + Math.pow(ball.y - hole.y, 2))
-          if (distToHole < 35 + ball.radius) {
-            shakeRef.current = 20
-            triggerLevelTransition()
-            return
-          }
+    requestRef.current = requestAnimationFrame(gameState === 'replay' ? playback : update)
+    return () => {
+      if (requestRef.current) cancelAnimationFrame(requestRef.current)
+    }
+  }, [gameState, selectedCharacter, partnerCharacter, customFighters, playMode, watching, replaySpeed, replayPaused])
+
+  // --- Replays ---
+
+  const watchReplay = (replay: Replay, issues: string[] = []) => {
+    // The HUD follows the play mode, so match the recorded run's
+    changePlayMode(replay.characters.length > 1 ? 'coop' : 'solo')
+    replayPlayerRef.current = createReplayPlayer(replay)
+    effectsRef.current = [createEffects()]
+    timersRef.current.clear()
+    setWatching(replay)
+    setReplayIssues(issues)
+    setReplayError('')
+    setReplayPosition(0)
+    setReplaySpeed(1)
+    setReplayPaused(false)
+    setMessage('')
+    setScore(replay.start.score)
+    setPlayerScores([...replay.start.playerScores])
+    setLevel(replay.start.level)
+    setLives(replay.start.lives)
+    setSeed(replay.start.seed)
+    dispatch('watch')
+  }
 
-          if (ball.x + ball.dx > canvas.width - ball.radius) {
-            ball.x = canvas.width - ball.radius
-            ball.dx = -ball.dx
-          } else if (ball.x + ball.dx < ball.radius) {
-            ball.x = ball.radius
-            ball.dx = -ball.dx
-          }
-          
-          if (ball.y + ball.dy < ball.radius) {
-            ball.y = ball.radius
-            ball.dy = -ball.dy
-          } else if (ball.y + ball.dy > canvas.height - ball.radius) {
-            if (ball.x > paddle.x && ball.x < paddle.x + paddle.width) {
-              playSound('paddle')
-              
-              if (paddle.isSticky) {
-                ball.isAttached = true
-                ball.offsetX = ball.x - (paddle.x + paddle.width/2)
-                ball.dx = 0
-                ball.dy = 0
-              } else {
-                const hitPoint = ball.x - (paddle.x + paddle.width / 2)
-                const normalizedHit = hitPoint / (paddle.width / 2)
-                ball.dy = -Math.abs(ball.dy)
-                ball.dx = normalizedHit * 8
-                ball.dx *= 1.02
-                ball.dy *= 1.02
-              }
-            } else {
-              ballsRef.current.splice(i, 1)
-              setLostBall(true)
-              shakeRef.current = 10
-              playSound('lose')
-              setTimeout(() => setLostBall(false), 200)
-              continue
-            }
-          }
+  const seekReplay = (position: number) => {
+    const player = replayPlayerRef.current
+    if (!player) return
+    player.seek(position)
+    effectsRef.current = [createEffects()]
+    setReplayPosition(player.position)
+    setScore(player.state.score)
+    setPlayerScores([...player.state.playerScores])
+    setLevel(player.state.level)
+    setLives(player.state.lives)
+  }
 
-          bricks.forEach(brick => {
-            if (brick.status === 1) {
-              if (
-                ball.x > brick.x &&
-                ball.x < brick.x + brick.width &&
-                ball.y > brick.y &&
-                ball.y < brick.y + brick.height
-              ) {
-                if (!ball.isThrough) {
-                  ball.dy = -ball.dy
-                }
-                
-                if (brick.type !== 'unbreakable') {
-                    brick.health -= 1
-                    playSound('hit')
-                    if (ball.isThrough) brick.health = 0
-
-                    if (brick.health <= 0) {
-                        brick.status = 0
-                        setScore(prev => prev + 10)
-                        spawnPowerUp(brick.x + brick.width/2, brick.y + brick.height/2)
-
-                        if (Math.random() < 0.12) {
-                          setMessage(pickMotivation())
-                          setTimeout(() => setMessage(''), 2000)
-                        }
-                        
-                        for (let k = 0; k < 6; k++) {
-                          particlesRef.current.push({
-                            x: brick.x + brick.width / 2,
-                            y: brick.y + brick.height / 2,
-                            dx: (Math.random() - 0.5) * 6,
-                            dy: (Math.random() - 0.5) * 6,
-                            life: 1,
-                            color: brick.color
-                          })
-                        }
-                    } else {
-                        brick.color = getBrickColor(brick.health)
-                    }
-                } else {
-                   if (ball.isThrough) {
-                      ball.dy = -ball.dy 
-                   }
-                   playSound('hit')
-                }
-              }
-            }
-          })
-      }
+  const toggleReplayPause = () => {
+    const player = replayPlayerRef.current
+    // Playing again from the end starts over
+    if (replayPaused && player && player.position === player.total) seekReplay(0)
+    setReplayPaused(!replayPaused)
+  }
 
-      if (ballsRef.current.length === 0) {
-          if (lives > 1) {
-            setLives(prev => prev - 1)
-            resetBallAndPaddle(level)
-          } else {
-            setGameState('gameover')
-          }
-          return
-      }
+  const exitReplay = () => {
+    replayPlayerRef.current = null
+    setWatching(null)
+    dispatch('quit')
+  }
 
-      if (bricks.filter(b => b.status === 1 && b.type !== 'unbreakable').length === 0) {
-        triggerLevelTransition()
-        return
-      }
+  const exportReplay = (replay: Replay) => {
+    const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = replayFileName(replay)
+    link.click()
+    URL.revokeObjectURL(url)
+  }
 
-      particlesRef.current.forEach((p, index) => {
-        p.x += p.dx
-        p.y += p.dy
-        p.life -= 0.04
-        ctx.globalAlpha = p.life
-        ctx.fillStyle = p.color
-        ctx.fillRect(p.x, p.y, 4, 4)
-        ctx.globalAlpha = 1
-        if (p.life <= 0) particlesRef.current.splice(index, 1)
+  // Imported replays are played through once first, so a mismatch shows up as a warning
+  const importReplay = (file: File) => {
+    file.text()
+      .then(text => {
+        const replay = parseReplay(JSON.parse(text), file.name)
+        watchReplay(replay, verifyReplay(replay))
       })
+      .catch(e => {
+        console.error(e)
+        setReplayError(e instanceof ReplayError || e instanceof SyntaxError ? e.message : `Could not read ${file.name}`)
+      })
+  }
 
-      if (shakeRef.current > 0) ctx.restore()
-
-      requestRef.current = requestAnimationFrame(update)
-    }
-
-    requestRef.current = requestAnimationFrame(update)
-    return () => {
-      if (requestRef.current) cancelAnimationFrame(requestRef.current)
-    }
-  }, [gameState, level, selectedCharacter, lives])
+  const moveKeys = (player: number) => {
+    const { keys } = playerBindings(player)
+    return [...keys.left, ...keys.right].map(keyLabel).join('/')
+  }
 
-  const handleMove = (clientX: number) => {
-    if (!canvasRef.current) return
+  // Versus goes to whoever took more rounds, then to points; null is a draw
+  const matchWinner = roundWins[0] !== roundWins[1]
+    ? (roundWins[0] > roundWins[1] ? 0 : 1)
+    : score !== rival.score ? (score > rival.score ? 0 : 1) : null
+
+  /**
+   * Which player a pointer belongs to and where on their board it is. The
+   * mouse is always player one's; with two players, touches on the right half
+   * of the screen are player two's.
+   */
+  const pointerTarget = (clientX: number, isTouch: boolean) => {
+    if (!canvasRef.current) return null
     const rect = canvasRef.current.getBoundingClientRect()
     const x = clientX - rect.left
-    if (x > 0 && x < rect.width) {
-      paddleRef.current.x = x - paddleRef.current.width / 2
-    }
+    if (x <= 0 || x >= rect.width) return null
+
+    const player = isTouch && playerCount(playMode) > 1 && x > rect.width / 2 ? 1 : 0
+    const game = gamesRef.current[playMode === 'coop' ? 0 : player]
+    if (!isSplitScreen(playMode) || !game) return { player, x }
+
+    const view = boardView(player, game, rect.width, rect.height)
+    const local = (x - view.left) / view.scale
+    return local > 0 && local < game.width ? { player, x: local } : null
   }
 
-  const handleInput = () => {
-    if (gameState === 'playing') {
-      launchBalls()
-    }
+  const handleMove = (clientX: number, isTouch = false) => {
+    const target = pointerTarget(clientX, isTouch)
+    if (target) inputsRef.current[target.player].pointerAt(target.x)
+  }
+
+  const handleInput = (clientX: number, isTouch = false) => {
+    if (gameState !== 'playing') return
+    const target = pointerTarget(clientX, isTouch)
+    inputsRef.current[target?.player ?? 0].pressLaunch()
   }
 
   return (
     <div 
       ref={containerRef}
-      className={`fixed inset-0 w-full h-[100dvh] overflow-hidden flex flex-col items-center justify-center font-sans transition-colors duration-200 ${lostBall ? 'bg-red-900/50' : ''}`}
-      style={{ background: lostBall ? undefined : COLORS.background }}
-      onClick={handleInput}
-      onTouchStart={handleInput}
+      className={`fixed inset-0 w-full h-[100dvh] overflow-hidden flex flex-col items-center justify-center font-sans transition-colors duration-200 ${lostBall ? 'bg-red-900/50' : ''} ${reduceMotion ? 'reduce-motion' : ''}`}
+      style={{ background: lostBall ? undefined : activeTheme().background }}
+      onClick={(e) => handleInput(e.clientX)}
+      onTouchStart={(e) => Array.from(e.changedTouches).forEach(touch => handleInput(touch.clientX, true))}
     >
+      <p role="status" aria-live="polite" className="sr-only">{announcement}</p>
+
       {gameState !== 'menu' && (
         <div className="absolute top-0 left-0 w-full p-4 flex justify-between items-center text-white font-bold z-10 pointer-events-none">
           <div className="flex gap-4 bg-black/20 backdrop-blur-md px-4 py-2 rounded-full">
+            {isSplitScreen(playMode) && <span style={{ color: characters[selectedCharacter].color }}>{characters[selectedCharacter].name} · {roundWins[0]}</span>}
             <span>{score} pts</span>
             <span className="flex items-center gap-1"><Heart size={16} className="fill-red-500 text-red-500"/> {lives}</span>
+            {playMode === 'coop' && [selectedCharacter, partnerCharacter].map((char, player) => (
+              <span key={player} style={{ color: characters[char].color }}>{characters[char].name} {playerScores[player] ?? 0}</span>
+            ))}
           </div>
+          {isSplitScreen(playMode) && (
+            <div className="absolute left-1/2 ml-4 flex gap-4 bg-black/20 backdrop-blur-md px-4 py-2 rounded-full">
+              <span style={{ color: characters[partnerCharacter].color }}>{characters[partnerCharacter].name} · {roundWins[1]}</span>
+              <span>{rival.score} pts</span>
+              <span className="flex items-center gap-1"><Heart size={16} className="fill-red-500 text-red-500"/> {rival.lives}</span>
+            </div>
+          )}
           <div className="flex gap-2">
-             <button onClick={(e) => { e.stopPropagation(); setIsMuted(!isMuted) }} className="bg-black/20 backdrop-blur-md p-2 rounded-full pointer-events-auto">
-                {isMuted ? <VolumeX size={20} /> : <Volume2 size={20} />}
+             <button onClick={(e) => { e.stopPropagation(); changeSettings({ ...settings, muted: !settings.muted }) }} className="bg-black/20 backdrop-blur-md p-2 rounded-full pointer-events-auto" aria-label={settings.muted ? 'Unmute' : 'Mute'}>
+                {settings.muted ? <VolumeX size={20} /> : <Volume2 size={20} />}
              </button>
+             {isRunning(gameState) && gamesRef.current[0]?.assist && (
+               <button
+                 onClick={(e) => { e.stopPropagation(); changeSlowMotion(!slowMotion) }}
+                 className={`backdrop-blur-md p-2 rounded-full pointer-events-auto ${slowMotion ? 'bg-cyan-400/60' : 'bg-black/20'}`}
+                 aria-label="Slow motion"
+                 aria-pressed={slowMotion}
+               >
+                 <Snail size={20} />
+               </button>
+             )}
+             {gameState === 'playing' && playMode !== 'online' && (
+               <button onClick={(e) => { e.stopPropagation(); pauseGame() }} className="bg-black/20 backdrop-blur-md p-2 rounded-full pointer-events-auto" aria-label="Pause">
+                 <Pause size={20} />
+               </button>
+             )}
+             {isRunning(gameState) && playMode === 'online' && (
+               <button onClick={(e) => { e.stopPropagation(); quitGame() }} className="bg-black/20 backdrop-blur-md p-2 rounded-full pointer-events-auto" aria-label="Leave match">
+                 <LogOut size={20} />
+               </button>
+             )}
+             {seed !== null && (
+               <div className="bg-black/20 backdrop-blur-md px-4 py-2 rounded-full font-mono text-sm flex items-center">
+                 Seed {seed}
+               </div>
+             )}
              <div className="bg-black/20 backdrop-blur-md px-4 py-2 rounded-full">
                Level {level}
              </div>
@@ -777,9 +1281,11 @@ export default function Game() {
 
       <canvas
         ref={canvasRef}
+        role="img"
+        aria-label="Game board"
         className={`block touch-none ${gameState === 'menu' ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}
         onMouseMove={(e) => handleMove(e.clientX)}
-        onTouchMove={(e) => handleMove(e.touches[0].clientX)}
+        onTouchMove={(e) => Array.from(e.touches).forEach(touch => handleMove(touch.clientX, true))}
       />
 
       {message && gameState !== 'level_transition' && (
@@ -795,9 +1301,56 @@ export default function Game() {
         </div>
       )}
 
+      {gameState === 'paused' && (
+        <div
+          className="absolute inset-0 z-40 flex flex-col items-center justify-center gap-4 bg-black/80 backdrop-blur-sm text-white p-6"
+          onClick={(e) => e.stopPropagation()}
+          onTouchStart={(e) => e.stopPropagation()}
+        >
+          <h2 className="text-6xl font-black tracking-tighter mb-6">PAUSED</h2>
+          <button
+            onClick={resumeGame}
+            autoFocus
+            className="w-full max-w-xs py-4 bg-gradient-to-r from-yellow-400 to-orange-500 text-brown-900 rounded-full text-2xl font-black flex items-center justify-center gap-3 transition-transform hover:scale-105"
+          >
+            <Play size={24} className="fill-current" /> RESUME
+          </button>
+          <button
+            onClick={restartLevel}
+            className="w-full max-w-xs py-4 bg-white/10 hover:bg-white/20 rounded-full text-xl font-bold flex items-center justify-center gap-3"
+          >
+            <RotateCcw size={22} /> RESTART LEVEL
+          </button>
+          <button
+            onClick={() => setShowSettings(true)}
+            className="w-full max-w-xs py-4 bg-white/10 hover:bg-white/20 rounded-full text-xl font-bold flex items-center justify-center gap-3"
+          >
+            <Settings2 size={22} /> SETTINGS
+          </button>
+          <button
+            onClick={() => setShowControls(true)}
+            className="w-full max-w-xs py-4 bg-white/10 hover:bg-white/20 rounded-full text-xl font-bold flex items-center justify-center gap-3"
+          >
+            <Gamepad2 size={22} /> CONTROLS
+          </button>
+          <button
+            onClick={quitGame}
+            className="w-full max-w-xs py-4 text-white/70 hover:text-white rounded-full text-xl font-bold flex items-center justify-center gap-3"
+          >
+            <LogOut size={22} /> QUIT
+          </button>
+          <p className="text-sm text-white/50">{bindings[0].keys.pause.map(keyLabel).join(' or ')} to resume</p>
+        </div>
+      )}
+
       {gameState === 'level_transition' && (
-        <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/90 backdrop-blur-md animate-pulse">
+        <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/90 backdrop-blur-md">
            <div className="text-center mb-8">
+             {roundWinner !== null && (
+               <p className="text-4xl font-black mb-4" style={{ color: characters[roundWinner === 0 ? selectedCharacter : partnerCharacter].color }}>
+                 {characters[roundWinner === 0 ? selectedCharacter : partnerCharacter].name} takes the round! {roundWins[0]} – {roundWins[1]}
+               </p>
+             )}
              <h1 className="text-6xl font-black text-transparent bg-clip-text bg-gradient-to-r from-green-500 via-yellow-500 to-red-500 drop-shadow-[0_5px_0_rgba(255,255,255,0.2)] animate-bounce mb-4">
                GIRL I WANT TO<br/>MAKE YOU SWEAT!
              </h1>
@@ -806,11 +1359,15 @@ export default function Game() {
              </p>
            </div>
            
-           <img 
-              src="/assets/inner-circle.svg" 
-              alt="Sweat" 
-              className="w-64 h-64 animate-bounce" 
-           />
+           {levelBonus && !isSplitScreen(playMode) ? (
+             <LevelSummary bonus={levelBonus} />
+           ) : (
+             <img 
+                src="/assets/inner-circle.svg" 
+                alt="Sweat" 
+                className="w-64 h-64 animate-bounce" 
+             />
+           )}
 
            <p className="text-white text-2xl mt-8 font-bold">Push it some more...</p>
         </div>
@@ -821,38 +1378,274 @@ export default function Game() {
           <h1 className="text-6xl md:text-8xl font-black mb-2 text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-pink-500 drop-shadow-lg tracking-tighter text-center">
             BROWN<br/>HOLE
           </h1>
-          <p className="text-xl mb-12 text-pink-200 tracking-widest uppercase font-bold">Pick Your Fighter</p>
+          {!playtestPack && (
+            <div className="flex gap-2 mb-6">
+              {PLAY_MODES.map(({ mode, label, icon: Icon }) => (
+                <button
+                  key={mode}
+                  onClick={(e) => { e.stopPropagation(); changePlayMode(mode) }}
+                  aria-pressed={playMode === mode}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-full font-bold border-2 transition-colors ${
+                    playMode === mode ? 'border-yellow-400 text-yellow-400 bg-white/10' : 'border-white/20 text-white hover:border-white/50'
+                  }`}
+                >
+                  <Icon size={18} /> {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {!playtestPack && !isSplitScreen(playMode) && (
+            <div className="flex gap-2 mb-6">
+              {GAME_MODES.map(({ mode, label, icon: Icon }) => (
+                <button
+                  key={mode}
+                  onClick={(e) => { e.stopPropagation(); setGameMode(mode) }}
+                  aria-pressed={gameMode === mode}
+                  className={`flex items-center gap-2 px-4 py-1 rounded-full text-sm font-bold border-2 transition-colors ${
+                    gameMode === mode ? 'border-pink-300 text-pink-300 bg-white/10' : 'border-white/20 text-white hover:border-white/50'
+                  }`}
+                >
+                  <Icon size={16} /> {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {!fixedDifficulty(isSplitScreen(playMode) || playtestPack ? 'campaign' : gameMode) && (
+            <DifficultyPicker choice={difficulty} onChange={changeDifficulty} />
+          )}
+
+          <p className="text-xl mb-6 text-pink-200 tracking-widest uppercase font-bold">
+            {playMode === 'solo' ? 'Pick Your Fighter' : 'Pick Your Fighters'}
+          </p>
+
+          {playerCount(playMode) > 1 && (
+            <div className="flex gap-2 mb-6">
+              {[selectedCharacter, partnerCharacter].map((char, player) => (
+                <button
+                  key={player}
+                  onClick={(e) => { e.stopPropagation(); setPickingFor(player) }}
+                  aria-pressed={pickingFor === player}
+                  className={`px-4 py-1 rounded-full font-bold border-2 ${pickingFor === player ? 'border-yellow-400 bg-white/10' : 'border-white/20'}`}
+                >
+                  Player {player + 1}: <span style={{ color: characters[char].color }}>{characters[char].name}</span>
+                </button>
+              ))}
+            </div>
+          )}
           
-          <div className="flex gap-6 md:gap-12 mb-16">
-            {CHARACTERS.map((char, idx) => (
+          <div className="flex flex-wrap justify-center gap-6 md:gap-12 mb-10">
+            {characters.map((char, idx) => {
+              const picked = pickingFor === 0 ? selectedCharacter : partnerCharacter
+              const badges = playerCount(playMode) === 1 ? [] : [selectedCharacter, partnerCharacter].flatMap((c, player) => c === idx ? [`P${player + 1}`] : [])
+              return (
+                <div key={char.name} className="relative">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); (pickingFor === 0 ? setSelectedCharacter : setPartnerCharacter)(idx) }}
+                    aria-pressed={picked === idx}
+                    className={`group relative p-4 rounded-3xl transition-all duration-300 transform hover:scale-110 border-4 ${
+                      picked === idx 
+                          ? 'border-yellow-400 bg-white/10 shadow-[0_0_30px_rgba(250,204,21,0.5)] scale-110' 
+                          : 'border-white/20 hover:border-white/50'
+                    }`}
+                  >
+                    {badges.length > 0 && (
+                      <div className="absolute -top-3 right-2 flex gap-1">
+                        {badges.map(badge => <span key={badge} className="px-2 rounded-full bg-yellow-400 text-black text-sm font-black">{badge}</span>)}
+                      </div>
+                    )}
+                    <div className="w-28 h-28 md:w-40 md:h-40 rounded-full bg-white/10 mb-4 overflow-hidden relative border-4 border-white/20 group-hover:border-white/40">
+                      <img src={char.image} alt={char.name} className="w-full h-full object-cover" />
+                    </div>
+                    <div className={`text-xl md:text-2xl font-bold text-center ${picked === idx ? 'text-yellow-400' : 'text-white'}`}>
+                      {char.name}
+                    </div>
+                  </button>
+                  {char.custom && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); removeFighter(idx) }}
+                      aria-label={`Delete ${char.name}`}
+                      className="absolute -top-3 -left-3 p-1 rounded-full bg-black/80 border-2 border-white/20 text-white/70 hover:text-red-300 hover:border-red-300"
+                    >
+                      <X size={16} />
+                    </button>
+                  )}
+                </div>
+              )
+            })}
+            {!playtestPack && customFighters.length < MAX_CUSTOM_FIGHTERS && (
               <button
-                key={char.name}
-                onClick={(e) => { e.stopPropagation(); setSelectedCharacter(idx) }}
-                className={`group relative p-4 rounded-3xl transition-all duration-300 transform hover:scale-110 border-4 ${
-                  selectedCharacter === idx 
-                      ? 'border-yellow-400 bg-white/10 shadow-[0_0_30px_rgba(250,204,21,0.5)] scale-110' 
-                      : 'border-white/20 hover:border-white/50'
-                }`}
+                onClick={(e) => { e.stopPropagation(); setShowFighterCreator(true) }}
+                className="p-4 rounded-3xl border-4 border-dashed border-white/20 hover:border-white/50 text-white/70 hover:text-white transition-colors"
               >
-                <div className="w-28 h-28 md:w-40 md:h-40 rounded-full bg-white/10 mb-4 overflow-hidden relative border-4 border-white/20 group-hover:border-white/40">
-                  <img src={char.image} alt={char.name} className="w-full h-full object-cover" />
-                </div>
-                <div className={`text-xl md:text-2xl font-bold text-center ${selectedCharacter === idx ? 'text-yellow-400' : 'text-white'}`}>
-                  {char.name}
+                <div className="w-28 h-28 md:w-40 md:h-40 rounded-full bg-white/5 mb-4 flex items-center justify-center">
+                  <UserPlus size={48} />
                 </div>
+                <div className="text-xl md:text-2xl font-bold text-center">Add fighter</div>
               </button>
-            ))}
+            )}
           </div>
+
+          {playerCount(playMode) > 1 && (
+            <p className="mb-6 max-w-md text-sm text-white/60 text-center">
+              Player 1: mouse, {moveKeys(0)} or the first gamepad.
+              Player 2: {moveKeys(1)} or the second gamepad.
+              On touch screens each player takes a half. Two-player games aren't saved or ranked.
+            </p>
+          )}
+
+          {packList.length > 1 && (gameMode === 'campaign' || isSplitScreen(playMode)) && (
+            <div className="flex flex-wrap justify-center gap-2 mb-10">
+              {packList.map(pack => (
+                <button
+                  key={pack.id}
+                  onClick={(e) => { e.stopPropagation(); setSelectedPack(pack.id) }}
+                  aria-pressed={selectedPack === pack.id}
+                  className={`px-4 py-2 rounded-full font-bold border-2 transition-colors ${
+                    selectedPack === pack.id ? 'border-yellow-400 text-yellow-400 bg-white/10' : 'border-white/20 text-white hover:border-white/50'
+                  }`}
+                >
+                  {pack.name}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {packError && (
+            <p className="mb-6 max-w-md text-sm text-red-300 whitespace-pre-line text-center">{packError}</p>
+          )}
           
+          {playMode === 'online' && (
+            <OnlineLobby
+              room={room}
+              opponent={opponent}
+              error={onlineError}
+              onCreate={() => openRoom()}
+              onJoin={openRoom}
+              onLeave={leaveRoom}
+            />
+          )}
+
+          {gameMode === 'daily' && !isSplitScreen(playMode) && daily && <DailyCard date={daily.date} result={daily.result} />}
+
+          {savedRun && playMode === 'solo' && (
+            <button
+              onClick={(e) => { e.stopPropagation(); continueGame() }}
+              className="w-full max-w-sm py-4 mb-6 bg-white/10 border-4 border-yellow-400 text-yellow-400 hover:bg-white/20 rounded-full text-2xl font-black transition-all transform hover:scale-105 flex items-center justify-center gap-3"
+            >
+              CONTINUE <StepForward size={28} />
+              <span className="text-sm font-bold text-white/70">Level {savedRun.game.level} · {savedRun.game.score} pts</span>
+            </button>
+          )}
+
           <button
             onClick={(e) => { e.stopPropagation(); startGame() }}
-            className="w-full max-w-sm py-6 bg-gradient-to-r from-yellow-400 to-orange-500 hover:from-yellow-300 hover:to-orange-400 text-brown-900 rounded-full text-3xl font-black transition-all transform hover:scale-105 shadow-[0_10px_0_rgb(161,98,7)] active:shadow-none active:translate-y-[10px] flex items-center justify-center gap-4"
+            autoFocus
+            disabled={playMode === 'online' && !(room?.hasPeer && room.player === 0)}
+            className="disabled:opacity-40 disabled:pointer-events-none w-full max-w-sm py-6 bg-gradient-to-r from-yellow-400 to-orange-500 hover:from-yellow-300 hover:to-orange-400 text-brown-900 rounded-full text-3xl font-black transition-all transform hover:scale-105 shadow-[0_10px_0_rgb(161,98,7)] active:shadow-none active:translate-y-[10px] flex items-center justify-center gap-4"
+          >
+            {gameMode === 'daily' && daily?.result ? 'PRACTICE' : 'START GAME'} <Play size={32} className="fill-current" />
+          </button>
+
+          {!playtestPack && (
+            <button
+              onClick={(e) => { e.stopPropagation(); setShowHistory(true) }}
+              className="mt-6 flex items-center gap-2 text-white/70 hover:text-white font-bold uppercase tracking-widest"
+            >
+              <History size={20} /> Hall of Holes
+            </button>
+          )}
+
+          <button
+            onClick={(e) => { e.stopPropagation(); setShowControls(true) }}
+            className="mt-6 flex items-center gap-2 text-white/70 hover:text-white font-bold uppercase tracking-widest"
           >
-            START GAME <Play size={32} className="fill-current" />
+            <Gamepad2 size={20} /> Controls
           </button>
+
+          <button
+            onClick={(e) => { e.stopPropagation(); setShowSettings(true) }}
+            className="mt-6 flex items-center gap-2 text-white/70 hover:text-white font-bold uppercase tracking-widest"
+          >
+            <Settings2 size={20} /> Settings
+          </button>
+
+          <div className="mt-6 flex gap-6">
+            {lastReplay && (
+              <button
+                onClick={(e) => { e.stopPropagation(); watchReplay(lastReplay) }}
+                className="flex items-center gap-2 text-white/70 hover:text-white font-bold uppercase tracking-widest"
+              >
+                <Film size={20} /> Last replay
+              </button>
+            )}
+            <label
+              onClick={(e) => e.stopPropagation()}
+              className="flex items-center gap-2 text-white/70 hover:text-white font-bold uppercase tracking-widest cursor-pointer"
+            >
+              <Upload size={20} /> Import replay
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="sr-only"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) importReplay(file)
+                  e.target.value = ''
+                }}
+              />
+            </label>
+          </div>
+          {replayError && <p className="mt-2 max-w-md text-sm text-red-300 text-center">{replayError}</p>}
+
+          {onExit && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onExit() }}
+              className="mt-6 text-white/70 hover:text-white font-bold uppercase tracking-widest"
+            >
+              Back to editor
+            </button>
+          )}
         </div>
       )}
 
+      {gameState === 'menu' && showHistory && (
+        <RunHistory
+          characters={characters}
+          initialCharacter={selectedCharacter}
+          initialMode={gameMode}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {gameState === 'menu' && showFighterCreator && (
+        <FighterCreator fighters={characters} onCreate={addFighter} onClose={() => setShowFighterCreator(false)} />
+      )}
+
+      {(gameState === 'menu' || gameState === 'paused') && showControls && (
+        <ControlsSettings bindings={bindings} onChange={changeBindings} onClose={() => setShowControls(false)} />
+      )}
+
+      {(gameState === 'menu' || gameState === 'paused') && showSettings && (
+        <SettingsPanel settings={settings} onChange={changeSettings} onClose={() => setShowSettings(false)} />
+      )}
+
+      {gameState === 'replay' && watching && (
+        <ReplayControls
+          position={replayPosition}
+          total={watching.result.steps}
+          speed={replaySpeed}
+          paused={replayPaused}
+          issues={replayIssues}
+          onSeek={seekReplay}
+          onSpeed={setReplaySpeed}
+          onTogglePause={toggleReplayPause}
+          onExport={() => exportReplay(watching)}
+          onExit={exitReplay}
+        />
+      )}
+
       {gameState === 'gameover' && (
         <div className="absolute inset-0 bg-black/90 flex flex-col items-center justify-center text-white z-50 p-6">
           <div className="flex flex-col items-center mb-8">
@@ -861,11 +1654,33 @@ export default function Game() {
           </div>
 
           <h2 className="text-5xl md:text-7xl font-black text-red-500 mb-16 tracking-tighter uppercase drop-shadow-[0_5px_0_rgba(150,0,0,0.5)]">
-            GAME OVER
+            {buried ? 'BURIED' : 'GAME OVER'}
           </h2>
 
+          {playMode === 'coop' && (
+            <p className="text-2xl mb-10 font-bold text-white/80">
+              {[selectedCharacter, partnerCharacter].map((char, player) => `${characters[char].name} ${playerScores[player] ?? 0}`).join(' · ')}
+            </p>
+          )}
+
+          {lastRun?.rank && <NewRecordEntry run={lastRun.run} rank={lastRun.rank} />}
+
+          {gameMode === 'daily' && playMode === 'solo' && daily?.result?.finished && <DailyCard date={daily.date} result={daily.result} />}
+
+          {lastReplay && !isSplitScreen(playMode) && (
+            <div className="flex gap-6 mb-6 font-bold uppercase tracking-widest">
+              <button onClick={(e) => { e.stopPropagation(); watchReplay(lastReplay) }} className="flex items-center gap-2 text-white/70 hover:text-white">
+                <Film size={20} /> Watch replay
+              </button>
+              <button onClick={(e) => { e.stopPropagation(); exportReplay(lastReplay) }} className="flex items-center gap-2 text-white/70 hover:text-white">
+                <Download size={20} /> Export
+              </button>
+            </div>
+          )}
+
           <button
-            onClick={(e) => { e.stopPropagation(); setGameState('menu') }}
+            onClick={(e) => { e.stopPropagation(); dispatch('quit') }}
+            autoFocus={!lastRun?.rank}
             className="w-full max-w-xs py-6 bg-white text-black hover:bg-gray-200 rounded-full text-2xl font-bold transition-transform hover:scale-105 shadow-xl flex items-center justify-center gap-3"
           >
             <RotateCcw size={28} /> TRY AGAIN
@@ -876,10 +1691,43 @@ export default function Game() {
       {gameState === 'won' && (
         <div className="absolute inset-0 bg-yellow-500 flex flex-col items-center justify-center text-white z-50 p-6">
           <Trophy size={96} className="mb-6 text-white animate-bounce" />
-          <h2 className="text-6xl font-black mb-4 text-center">YOU CONQUERED<br/>THE HOLE!</h2>
-          <p className="text-4xl mb-12 font-bold bg-black/20 px-8 py-4 rounded-full">Score: {score}</p>
+          {isSplitScreen(playMode) ? (
+            <>
+              <h2 className="text-6xl font-black mb-4 text-center">
+                {matchWinner === null ? 'A DRAW!' : <>{characters[matchWinner === 0 ? selectedCharacter : partnerCharacter].name}<br/>CONQUERED THE HOLE!</>}
+              </h2>
+              <p className="text-4xl mb-12 font-bold bg-black/20 px-8 py-4 rounded-full">
+                Rounds {roundWins[0]} – {roundWins[1]} · {score} vs {rival.score} pts
+              </p>
+            </>
+          ) : (
+            <>
+              <h2 className="text-6xl font-black mb-4 text-center">YOU CONQUERED<br/>THE HOLE!</h2>
+              <p className="text-4xl mb-12 font-bold bg-black/20 px-8 py-4 rounded-full">Score: {score}</p>
+            </>
+          )}
+          {playMode === 'coop' && (
+            <p className="text-2xl mb-12 font-bold">
+              {[selectedCharacter, partnerCharacter].map((char, player) => `${characters[char].name} ${playerScores[player] ?? 0}`).join(' · ')}
+            </p>
+          )}
+          {lastRun?.rank && <NewRecordEntry run={lastRun.run} rank={lastRun.rank} />}
+
+          {gameMode === 'daily' && playMode === 'solo' && daily?.result?.finished && <DailyCard date={daily.date} result={daily.result} />}
+
+          {lastReplay && !isSplitScreen(playMode) && (
+            <div className="flex gap-6 mb-6 font-bold uppercase tracking-widest">
+              <button onClick={(e) => { e.stopPropagation(); watchReplay(lastReplay) }} className="flex items-center gap-2 text-white/80 hover:text-white">
+                <Film size={20} /> Watch replay
+              </button>
+              <button onClick={(e) => { e.stopPropagation(); exportReplay(lastReplay) }} className="flex items-center gap-2 text-white/80 hover:text-white">
+                <Download size={20} /> Export
+              </button>
+            </div>
+          )}
           <button
-            onClick={() => setGameState('menu')}
+            onClick={(e) => { e.stopPropagation(); dispatch('quit') }}
+            autoFocus={!lastRun?.rank}
             className="w-full max-w-xs py-6 bg-white text-yellow-600 hover:bg-gray-50 rounded-full text-2xl font-bold transition-transform hover:scale-105 shadow-xl flex items-center justify-center gap-3"
           >
             <RotateCcw size={28} /> PLAY AGAIN
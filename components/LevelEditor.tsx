@@ -0,0 +1,638 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Download, Eraser, Play, Plus, Redo2, Trash2, Undo2, Upload } from 'lucide-react'
+import Game from '@/components/Game'
+import { BRICK_HEIGHT, BRICK_OFFSET_TOP, BRICK_PADDING, createGame, gridGeometry } from '@/lib/engine/game'
+import {
+  BRICK_TYPES,
+  LEVEL_FORMAT_VERSION,
+  LevelPackError,
+  POWER_UP_TYPES,
+  parseLevelPack,
+  type BrickCell,
+  type GridLevel,
+  type HoleSpec,
+  type LevelDefinition,
+  type LevelPack,
+} from '@/lib/engine/levels'
+import { POWER_UPS } from '@/lib/engine/powerUps'
+import type { BrickType, PowerUpType } from '@/lib/engine/types'
+import { activeTheme, brickFill, createEffects, drawGame, setHealthPatterns, setTheme } from '@/lib/render'
+import { loadSettings } from '@/lib/settings'
+import type { ThemeName } from '@/lib/themes'
+
+// --- Types ---
+interface Brush {
+  name: string
+  cell: BrickCell | null // null erases
+}
+
+interface Cell {
+  row: number
+  column: number
+}
+
+// --- Constants ---
+const MAX_HISTORY = 100
+const PREVIEW_SEED = 1 // Generator levels are previewed with a fixed seed
+
+const DEFAULT_BRUSHES: Brush[] = [
+  { name: 'Normal', cell: { type: 'normal' } },
+  { name: 'Tough', cell: { type: 'normal', health: 2 } },
+  { name: 'Tougher', cell: { type: 'normal', health: 3 } },
+  { name: 'Toughest', cell: { type: 'normal', health: 4 } },
+  { name: 'Unbreakable', cell: { type: 'unbreakable' } },
+  { name: 'Explosive', cell: { type: 'explosive' } },
+  { name: 'Moving', cell: { type: 'moving' } },
+  { name: 'Regenerating', cell: { type: 'regenerating' } },
+  { name: 'Portal', cell: { type: 'portal' } },
+]
+
+const newGridLevel = (columns = 10, rows = 6): GridLevel => ({
+  kind: 'grid',
+  name: 'Untitled',
+  bricks: Array.from({ length: rows }, () => Array.from({ length: columns }, (): BrickCell => ({ type: 'normal' }))),
+  hole: { column: columns / 2, row: -2 },
+})
+
+const NEW_PACK: LevelPack = {
+  version: LEVEL_FORMAT_VERSION,
+  name: 'My Pack',
+  levels: [newGridLevel()],
+}
+
+const cellColor = (cell: BrickCell) => brickFill(cell.type, cell.health ?? 1)
+
+const sameCell = (a: BrickCell | null, b: BrickCell | null) =>
+  a === b || (!!a && !!b && a.type === b.type && (a.health ?? 1) === (b.health ?? 1))
+
+/** Grows or shrinks a grid, keeping whatever still fits. */
+function resizeGrid(bricks: (BrickCell | null)[][], columns: number, rows: number) {
+  return Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: columns }, (_, c) => bricks[r]?.[c] ?? null)
+  )
+}
+
+export default function LevelEditor() {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Editor State
+  const [pack, setPack] = useState<LevelPack>(NEW_PACK)
+  const [past, setPast] = useState<LevelPack[]>([])
+  const [future, setFuture] = useState<LevelPack[]>([])
+  const [levelIndex, setLevelIndex] = useState(0)
+  const [brushes, setBrushes] = useState<Brush[]>(DEFAULT_BRUSHES)
+  const [brush, setBrush] = useState<Brush>(DEFAULT_BRUSHES[0])
+  const [newBrushName, setNewBrushName] = useState('')
+  const [hoverCell, setHoverCell] = useState<Cell | null>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const [error, setError] = useState('')
+  const [playtesting, setPlaytesting] = useState(false)
+  const [holeIndex, setHoleIndex] = useState(0) // 0 is the main hole, then extraHoles
+  const [theme, setThemeName] = useState<ThemeName>('classic') // The player's, read once mounted and after play-testing
+
+  // Refs
+  const strokeStartRef = useRef<LevelPack | null>(null) // Pack before the current drag began
+  const draggingHoleRef = useRef<number | null>(null) // Index of the hole being dragged
+
+  const level: LevelDefinition = pack.levels[levelIndex] ?? pack.levels[0]
+  const grid = level.kind === 'grid' ? level : null
+  const holes: HoleSpec[] = grid ? [grid.hole, ...(grid.extraHoles ?? [])] : []
+  const selectedHole = Math.min(holeIndex, holes.length - 1)
+
+  // --- History ---
+
+  const edit = (next: LevelPack) => {
+    setPast(prev => [...prev, pack].slice(-MAX_HISTORY))
+    setFuture([])
+    setPack(next)
+  }
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return
+    setFuture(prev => [pack, ...prev])
+    setPack(past[past.length - 1])
+    setPast(prev => prev.slice(0, -1))
+  }, [past, pack])
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return
+    setPast(prev => [...prev, pack])
+    setPack(future[0])
+    setFuture(prev => prev.slice(1))
+  }, [future, pack])
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || playtesting) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [undo, redo, playtesting])
+
+  useEffect(() => {
+    if (levelIndex >= pack.levels.length) setLevelIndex(pack.levels.length - 1)
+  }, [pack, levelIndex])
+
+  const updateLevel = (changes: Partial<GridLevel>, record = true) => {
+    if (!grid) return
+    const levels = pack.levels.slice()
+    levels[levelIndex] = { ...grid, ...changes }
+    const next = { ...pack, levels }
+    if (record) edit(next)
+    else setPack(next)
+  }
+
+  const updateHole = (index: number, spec: HoleSpec, record = true) => {
+    if (!grid) return
+    if (index === 0) updateLevel({ hole: spec }, record)
+    else updateLevel({ extraHoles: holes.slice(1).map((h, i) => i === index - 1 ? spec : h) }, record)
+  }
+
+  // The preview is drawn in the player's theme, which play-testing may have changed
+  useEffect(() => {
+    if (playtesting) return
+    const { theme, healthPatterns } = loadSettings()
+    setTheme(theme)
+    setHealthPatterns(healthPatterns)
+    setThemeName(theme)
+  }, [playtesting])
+
+  // --- Resize Handler ---
+  useEffect(() => {
+    const handleResize = () => {
+      if (!containerRef.current) return
+      const { clientWidth, clientHeight } = containerRef.current
+      setSize({ width: clientWidth, height: clientHeight })
+    }
+    window.addEventListener('resize', handleResize)
+    handleResize()
+    return () => window.removeEventListener('resize', handleResize)
+  }, [playtesting])
+
+  // --- Drawing ---
+  // The board is built and drawn by the same engine and renderer the game uses.
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx || size.width === 0) return
+
+    canvas.width = size.width
+    canvas.height = size.height
+    const state = createGame(size.width, size.height, PREVIEW_SEED, level)
+    drawGame(ctx, state, createEffects(), { players: [{ ballImage: null, ballColor: activeTheme().paddle }] })
+
+    if (!grid) return
+
+    // Outline the empty cells so there's something to paint on
+    const { brickWidth, startX } = gridGeometry(size.width, grid.bricks[0].length)
+    ctx.save()
+    ctx.setLineDash([4, 4])
+    ctx.lineWidth = 1
+    grid.bricks.forEach((row, r) => {
+      row.forEach((cell, c) => {
+        const x = startX + c * (brickWidth + BRICK_PADDING)
+        const y = BRICK_OFFSET_TOP + r * (BRICK_HEIGHT + BRICK_PADDING)
+        const hovered = hoverCell?.row === r && hoverCell.column === c
+        if (cell && !hovered) return
+        ctx.strokeStyle = hovered ? '#facc15' : 'rgba(255,255,255,0.15)'
+        ctx.strokeRect(x, y, brickWidth, BRICK_HEIGHT)
+      })
+    })
+    ctx.restore()
+  }, [level, grid, size, hoverCell, theme])
+
+  // --- Pointer Tools ---
+
+  const toCanvas = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+  }
+
+  const cellAt = (x: number, y: number): Cell | null => {
+    if (!grid) return null
+    const columns = grid.bricks[0].length
+    const { brickWidth, startX } = gridGeometry(size.width, columns)
+    const column = Math.floor((x - startX) / (brickWidth + BRICK_PADDING))
+    const row = Math.floor((y - BRICK_OFFSET_TOP) / (BRICK_HEIGHT + BRICK_PADDING))
+    if (column < 0 || column >= columns || row < 0 || row >= grid.bricks.length) return null
+    return { row, column }
+  }
+
+  const holeAt = (x: number, y: number) => {
+    const state = createGame(size.width, size.height, PREVIEW_SEED, level)
+    return state.holes.findIndex(hole => Math.hypot(x - hole.x, y - hole.y) <= hole.radius)
+  }
+
+  const paint = (cell: Cell, value: BrickCell | null) => {
+    if (!grid || sameCell(grid.bricks[cell.row][cell.column], value)) return
+    const bricks = grid.bricks.map(row => row.slice())
+    bricks[cell.row][cell.column] = value ? { ...value } : null
+    updateLevel({ bricks }, false)
+  }
+
+  const moveHole = (index: number, x: number, y: number) => {
+    if (!grid) return
+    const { brickWidth, startX } = gridGeometry(size.width, grid.bricks[0].length)
+    // Snap to quarter cells so exported JSON stays readable
+    const snap = (value: number) => Math.round(value * 4) / 4
+    const hole = holes[index]
+    const column = snap((x - startX) / (brickWidth + BRICK_PADDING))
+    const row = snap((y - BRICK_OFFSET_TOP) / (BRICK_HEIGHT + BRICK_PADDING))
+    // A drifting hole's path comes along with it
+    const path = hole.path?.map(point => ({ column: point.column + column - hole.column, row: point.row + row - hole.row }))
+    updateHole(index, { ...hole, column, row, ...(path && { path }) }, false)
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!grid) return
+    const { x, y } = toCanvas(e)
+    e.currentTarget.setPointerCapture(e.pointerId)
+    strokeStartRef.current = pack
+
+    const hole = holeAt(x, y)
+    if (hole !== -1) {
+      draggingHoleRef.current = hole
+      setHoleIndex(hole)
+      return
+    }
+    const cell = cellAt(x, y)
+    if (cell) paint(cell, e.button === 2 ? null : brush.cell)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = toCanvas(e)
+    const cell = cellAt(x, y)
+    setHoverCell(cell)
+    if (!strokeStartRef.current) return
+
+    if (draggingHoleRef.current !== null) moveHole(draggingHoleRef.current, x, y)
+    else if (cell) paint(cell, e.buttons === 2 ? null : brush.cell)
+  }
+
+  // A whole drag is one undo step
+  const handlePointerUp = () => {
+    const start = strokeStartRef.current
+    strokeStartRef.current = null
+    draggingHoleRef.current = null
+    if (start && start !== pack) {
+      setPast(prev => [...prev, start].slice(-MAX_HISTORY))
+      setFuture([])
+    }
+  }
+
+  // --- Levels ---
+
+  const addLevel = () => {
+    edit({ ...pack, levels: [...pack.levels, newGridLevel()] })
+    setLevelIndex(pack.levels.length)
+  }
+
+  const removeLevel = () => {
+    if (pack.levels.length === 1) return
+    edit({ ...pack, levels: pack.levels.filter((_, i) => i !== levelIndex) })
+    setLevelIndex(Math.max(0, levelIndex - 1))
+  }
+
+  // --- Holes ---
+
+  const addHole = () => {
+    if (!grid) return
+    const columns = grid.bricks[0].length
+    updateLevel({ extraHoles: [...holes.slice(1), { column: columns / 4, row: -2, radius: 22, bonus: 100 }] })
+    setHoleIndex(holes.length)
+  }
+
+  const removeHole = () => {
+    if (!grid || selectedHole === 0) return
+    const extraHoles = holes.slice(1).filter((_, i) => i !== selectedHole - 1)
+    updateLevel({ extraHoles: extraHoles.length > 0 ? extraHoles : undefined })
+    setHoleIndex(selectedHole - 1)
+  }
+
+  /** Sets one of the selected hole's optional numbers; 0 leaves it out. */
+  const setHoleOption = (key: 'pulse' | 'gravity' | 'shield' | 'bonus', value: number) => {
+    const { [key]: _, ...rest } = holes[selectedHole]
+    updateHole(selectedHole, value > 0 ? { ...rest, [key]: value } : rest)
+  }
+
+  const togglePowerUp = (type: PowerUpType) => {
+    if (!grid) return
+    const current = grid.powerUps ?? POWER_UP_TYPES
+    const powerUps = current.includes(type) ? current.filter(t => t !== type) : POWER_UP_TYPES.filter(t => t === type || current.includes(t))
+    updateLevel({ powerUps: powerUps.length === POWER_UP_TYPES.length ? undefined : powerUps })
+  }
+
+  // --- Brushes ---
+
+  const updateBrush = (cell: BrickCell) => {
+    const next = { ...brush, cell }
+    setBrushes(prev => prev.map(b => b === brush ? next : b))
+    setBrush(next)
+  }
+
+  const addBrush = () => {
+    if (!brush.cell) return
+    const next: Brush = { name: newBrushName.trim() || `Custom ${brushes.length + 1}`, cell: { ...brush.cell } }
+    setBrushes(prev => [...prev, next])
+    setBrush(next)
+    setNewBrushName('')
+  }
+
+  // --- Import / Export ---
+
+  const exportPack = () => {
+    const blob = new Blob([JSON.stringify(pack, null, 2) + '\n'], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${pack.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'levels'}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const importPack = (file: File) => {
+    file.text()
+      .then(text => {
+        const imported = parseLevelPack(JSON.parse(text), file.name)
+        edit(imported)
+        setLevelIndex(0)
+        setError('')
+      })
+      .catch(e => {
+        setError(e instanceof LevelPackError || e instanceof SyntaxError ? e.message : `Could not read ${file.name}`)
+      })
+  }
+
+  if (playtesting) {
+    return (
+      <Game
+        playtestPack={{ ...pack, levels: [level] }}
+        onExit={() => setPlaytesting(false)}
+      />
+    )
+  }
+
+  const brushCell = brush.cell
+
+  return (
+    <div className="fixed inset-0 flex text-white font-sans" style={{ background: activeTheme().background }}>
+      <aside className="w-72 shrink-0 overflow-y-auto bg-black/40 p-4 flex flex-col gap-5 text-sm">
+        <div>
+          <h1 className="text-2xl font-black text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-pink-500">LEVEL EDITOR</h1>
+          <input
+            value={pack.name}
+            onChange={(e) => edit({ ...pack, name: e.target.value })}
+            className="mt-2 w-full bg-white/10 rounded px-2 py-1"
+            aria-label="Pack name"
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={undo} disabled={past.length === 0} className="flex-1 flex items-center justify-center gap-1 rounded bg-white/10 py-2 disabled:opacity-30" title="Undo (Ctrl+Z)">
+            <Undo2 size={16} /> Undo
+          </button>
+          <button onClick={redo} disabled={future.length === 0} className="flex-1 flex items-center justify-center gap-1 rounded bg-white/10 py-2 disabled:opacity-30" title="Redo (Ctrl+Shift+Z)">
+            <Redo2 size={16} /> Redo
+          </button>
+        </div>
+
+        <section>
+          <h2 className="font-bold uppercase tracking-widest text-pink-200 mb-2">Levels</h2>
+          <div className="flex flex-wrap gap-2">
+            {pack.levels.map((l, i) => (
+              <button
+                key={i}
+                onClick={() => setLevelIndex(i)}
+                className={`px-3 py-1 rounded-full border-2 ${i === levelIndex ? 'border-yellow-400 text-yellow-400' : 'border-white/20'}`}
+              >
+                {l.name || `Level ${i + 1}`}
+              </button>
+            ))}
+            <button onClick={addLevel} className="px-2 py-1 rounded-full border-2 border-white/20" title="Add level"><Plus size={16} /></button>
+          </div>
+          <button onClick={removeLevel} disabled={pack.levels.length === 1} className="mt-2 flex items-center gap-1 text-red-300 disabled:opacity-30">
+            <Trash2 size={14} /> Delete level
+          </button>
+        </section>
+
+        {!grid && (
+          <p className="text-white/70">
+            This is a generator level; its bricks are rolled at play time. Edit its settings in the exported JSON.
+          </p>
+        )}
+
+        {grid && (
+          <>
+            <section className="flex flex-col gap-2">
+              <label className="flex justify-between items-center gap-2">
+                Name
+                <input value={grid.name ?? ''} onChange={(e) => updateLevel({ name: e.target.value })} className="w-40 bg-white/10 rounded px-2 py-1" />
+              </label>
+              <label className="flex justify-between items-center">
+                Columns
+                <input
+                  type="number" min={1} max={30} value={grid.bricks[0].length}
+                  onChange={(e) => updateLevel({ bricks: resizeGrid(grid.bricks, Math.max(1, Number(e.target.value)), grid.bricks.length) })}
+                  className="w-20 bg-white/10 rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex justify-between items-center">
+                Rows
+                <input
+                  type="number" min={1} max={20} value={grid.bricks.length}
+                  onChange={(e) => updateLevel({ bricks: resizeGrid(grid.bricks, grid.bricks[0].length, Math.max(1, Number(e.target.value))) })}
+                  className="w-20 bg-white/10 rounded px-2 py-1"
+                />
+              </label>
+              <p className="text-white/50 text-xs">Right-click or use the eraser to clear bricks.</p>
+            </section>
+
+            <section className="flex flex-col gap-2">
+              <h2 className="font-bold uppercase tracking-widest text-pink-200">Holes</h2>
+              <div className="flex flex-wrap gap-2">
+                {holes.map((_, i) => (
+                  <button
+                    key={i}
+                    onClick={() => setHoleIndex(i)}
+                    className={`px-3 py-1 rounded-full border-2 ${i === selectedHole ? 'border-yellow-400 text-yellow-400' : 'border-white/20'}`}
+                  >
+                    {i === 0 ? 'Main' : `Extra ${i}`}
+                  </button>
+                ))}
+                <button onClick={addHole} className="px-2 py-1 rounded-full border-2 border-white/20" title="Add hole"><Plus size={16} /></button>
+              </div>
+              <label className="flex justify-between items-center">
+                Radius
+                <input
+                  type="number" min={10} max={80} value={holes[selectedHole].radius ?? 35}
+                  onChange={(e) => updateHole(selectedHole, { ...holes[selectedHole], radius: Math.max(10, Number(e.target.value)) })}
+                  className="w-20 bg-white/10 rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex justify-between items-center">
+                Pulse %
+                <input
+                  type="number" min={0} max={90} step={5} value={Math.round((holes[selectedHole].pulse ?? 0) * 100)}
+                  onChange={(e) => setHoleOption('pulse', Math.min(90, Math.max(0, Number(e.target.value))) / 100)}
+                  className="w-20 bg-white/10 rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex justify-between items-center">
+                Gravity
+                <input
+                  type="number" min={0} max={1} step={0.05} value={holes[selectedHole].gravity ?? 0}
+                  onChange={(e) => setHoleOption('gravity', Math.max(0, Number(e.target.value)))}
+                  className="w-20 bg-white/10 rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex justify-between items-center">
+                Shield health
+                <input
+                  type="number" min={0} max={9} value={holes[selectedHole].shield ?? 0}
+                  onChange={(e) => setHoleOption('shield', Math.max(0, Math.floor(Number(e.target.value))))}
+                  className="w-20 bg-white/10 rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex justify-between items-center">
+                Bonus points
+                <input
+                  type="number" min={0} step={50} value={holes[selectedHole].bonus ?? 0}
+                  onChange={(e) => setHoleOption('bonus', Math.max(0, Math.floor(Number(e.target.value))))}
+                  className="w-20 bg-white/10 rounded px-2 py-1"
+                />
+              </label>
+              {selectedHole > 0 && (
+                <button onClick={removeHole} className="flex items-center gap-1 text-red-300">
+                  <Trash2 size={14} /> Delete hole
+                </button>
+              )}
+              <p className="text-white/50 text-xs">Drag a hole to move it. Drifting paths are set in the exported JSON.</p>
+            </section>
+
+            <section>
+              <h2 className="font-bold uppercase tracking-widest text-pink-200 mb-2">Bricks</h2>
+              <div className="grid grid-cols-2 gap-2">
+                {brushes.map((b, i) => (
+                  <button
+                    key={`${b.name}-${i}`}
+                    onClick={() => setBrush(b)}
+                    className={`flex items-center gap-2 rounded px-2 py-1 border-2 ${b === brush ? 'border-yellow-400' : 'border-transparent bg-white/5'}`}
+                  >
+                    {b.cell && <span className="w-6 h-3 rounded-sm" style={{ background: cellColor(b.cell) }} />}
+                    <span className="truncate">{b.name}</span>
+                  </button>
+                ))}
+                <button
+                  onClick={() => setBrush({ name: 'Eraser', cell: null })}
+                  className={`flex items-center gap-2 rounded px-2 py-1 border-2 ${brushCell === null ? 'border-yellow-400' : 'border-transparent bg-white/5'}`}
+                >
+                  <Eraser size={14} /> Eraser
+                </button>
+              </div>
+
+              {brushCell && (
+                <div className="mt-3 flex flex-col gap-2">
+                  <label className="flex justify-between items-center">
+                    Type
+                    <select
+                      value={brushCell.type}
+                      onChange={(e) => updateBrush({ ...brushCell, type: e.target.value as BrickType })}
+                      className="w-32 bg-white/10 rounded px-2 py-1"
+                    >
+                      {BRICK_TYPES.map(type => <option key={type} value={type} className="text-black">{type}</option>)}
+                    </select>
+                  </label>
+                  {brushCell.type !== 'unbreakable' && brushCell.type !== 'portal' && (
+                    <label className="flex justify-between items-center">
+                      Health
+                      <input
+                        type="number" min={1} max={99} value={brushCell.health ?? 1}
+                        onChange={(e) => {
+                          const health = Math.max(1, Math.floor(Number(e.target.value)))
+                          updateBrush({ ...brushCell, health: health > 1 ? health : undefined })
+                        }}
+                        className="w-20 bg-white/10 rounded px-2 py-1"
+                      />
+                    </label>
+                  )}
+                  <div className="flex gap-2">
+                    <input
+                      value={newBrushName}
+                      onChange={(e) => setNewBrushName(e.target.value)}
+                      placeholder="New brick type name"
+                      className="flex-1 min-w-0 bg-white/10 rounded px-2 py-1"
+                    />
+                    <button onClick={addBrush} className="rounded bg-white/10 px-2" title="Save as a new brick type"><Plus size={16} /></button>
+                  </div>
+                </div>
+              )}
+            </section>
+
+            <section>
+              <h2 className="font-bold uppercase tracking-widest text-pink-200 mb-2">Power-ups</h2>
+              <div className="flex flex-col gap-1">
+                {POWER_UP_TYPES.map(type => (
+                  <label key={type} className="flex items-center gap-2">
+                    <input type="checkbox" checked={(grid.powerUps ?? POWER_UP_TYPES).includes(type)} onChange={() => togglePowerUp(type)} />
+                    <span className="w-3 h-3 rounded-full" style={{ background: POWER_UPS[type].color }} />
+                    {type}
+                  </label>
+                ))}
+              </div>
+            </section>
+          </>
+        )}
+
+        <section className="flex flex-col gap-2 mt-auto">
+          {error && <p className="text-red-300 whitespace-pre-line text-xs">{error}</p>}
+          <button onClick={() => setPlaytesting(true)} className="flex items-center justify-center gap-2 rounded-full py-3 bg-gradient-to-r from-yellow-400 to-orange-500 text-brown-900 font-black">
+            <Play size={18} className="fill-current" /> PLAY-TEST
+          </button>
+          <div className="flex gap-2">
+            <button onClick={() => fileInputRef.current?.click()} className="flex-1 flex items-center justify-center gap-1 rounded bg-white/10 py-2">
+              <Upload size={16} /> Import
+            </button>
+            <button onClick={exportPack} className="flex-1 flex items-center justify-center gap-1 rounded bg-white/10 py-2">
+              <Download size={16} /> Export
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) importPack(file)
+              e.target.value = ''
+            }}
+          />
+        </section>
+      </aside>
+
+      <div ref={containerRef} className="relative flex-1 overflow-hidden">
+        <canvas
+          ref={canvasRef}
+          className={`block touch-none ${grid ? 'cursor-crosshair' : ''}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={() => setHoverCell(null)}
+          onContextMenu={(e) => e.preventDefault()}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+'use client'
+
+import type { LevelBonus } from '@/lib/engine/types'
+
+interface LevelSummaryProps {
+  bonus: LevelBonus
+}
+
+/** The level-transition breakdown: what the level scored, then each bonus on top. */
+export default function LevelSummary({ bonus }: LevelSummaryProps) {
+  const bonuses: [label: string, points: number][] = [
+    [bonus.end === 'hole' ? 'Early finish' : 'Board cleared', bonus.end === 'hole' ? bonus.early : bonus.cleared],
+    ['Bonus hole', bonus.hole],
+    ['Lives left', bonus.lives],
+    ['Speed', bonus.time],
+  ]
+
+  return (
+    <div className="w-full max-w-xs rounded-3xl bg-white/10 p-5 text-white font-bold">
+      <div className="flex justify-between py-1">
+        <span className="text-white/70">Bricks & pickups</span>
+        <span className="font-mono">{bonus.points}</span>
+      </div>
+      {bonuses.filter(([, points]) => points > 0).map(([label, points]) => (
+        <div key={label} className="flex justify-between py-1">
+          <span className="text-white/70">{label}</span>
+          <span className="font-mono">+{points}</span>
+        </div>
+      ))}
+      <div className="flex justify-between border-t border-white/20 mt-2 pt-2 text-2xl text-yellow-400">
+        <span>Level total</span>
+        <span className="font-mono">{bonus.points + bonus.total}</span>
+      </div>
+    </div>
+  )
+}
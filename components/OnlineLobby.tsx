@@ -0,0 +1,70 @@
+'use client'
+
+import { useState } from 'react'
+import { Copy, LogIn, LogOut, Plus } from 'lucide-react'
+
+export interface OnlineRoom {
+  code: string
+  player: number // 0 for the host
+  hasPeer: boolean
+}
+
+interface OnlineLobbyProps {
+  room: OnlineRoom | null
+  opponent: string | null // Opponent's character, once they've said hello
+  error: string
+  onCreate: () => void
+  onJoin: (code: string) => void
+  onLeave: () => void
+}
+
+/** Room codes for online versus; the menu's Start button does the rest. */
+export default function OnlineLobby({ room, opponent, error, onCreate, onJoin, onLeave }: OnlineLobbyProps) {
+  const [code, setCode] = useState('')
+
+  return (
+    <div className="w-full max-w-sm mb-6 rounded-3xl bg-white/5 p-4 flex flex-col items-center gap-3" onClick={(e) => e.stopPropagation()}>
+      {!room ? (
+        <>
+          <button onClick={onCreate} className="w-full py-2 rounded-full bg-white/10 hover:bg-white/20 font-bold flex items-center justify-center gap-2">
+            <Plus size={20} /> Create room
+          </button>
+          <form
+            className="w-full flex gap-2"
+            onSubmit={(e) => { e.preventDefault(); if (code) onJoin(code) }}
+          >
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase().replace(/[^A-Z]/g, '').slice(0, 4))}
+              placeholder="CODE"
+              aria-label="Room code"
+              className="flex-1 min-w-0 text-center text-xl font-black font-mono tracking-widest rounded-full bg-black/30 text-white px-3 py-1 border-2 border-white/30"
+            />
+            <button type="submit" className="px-4 rounded-full bg-white text-black font-bold flex items-center gap-2">
+              <LogIn size={18} /> Join
+            </button>
+          </form>
+        </>
+      ) : (
+        <>
+          <div className="flex items-center gap-3">
+            <span className="text-sm uppercase tracking-widest text-white/60">Room</span>
+            <span className="text-3xl font-black font-mono tracking-widest text-yellow-400">{room.code}</span>
+            <button onClick={() => navigator.clipboard?.writeText(room.code)} aria-label="Copy room code" className="text-white/60 hover:text-white">
+              <Copy size={18} />
+            </button>
+          </div>
+          <p className="text-white/80 text-center">
+            {!room.hasPeer
+              ? 'Waiting for someone to join…'
+              : `${opponent ?? 'Your opponent'} is here. ${room.player === 0 ? 'Start when you’re ready.' : 'Waiting for the host to start.'}`}
+          </p>
+          <button onClick={onLeave} className="text-white/60 hover:text-white font-bold flex items-center gap-2">
+            <LogOut size={18} /> Leave room
+          </button>
+        </>
+      )}
+      {error && <p className="text-sm text-red-300 text-center">{error}</p>}
+    </div>
+  )
+}
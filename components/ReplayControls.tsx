@@ -0,0 +1,73 @@
+'use client'
+
+import { Download, Pause, Play, X } from 'lucide-react'
+import { STEP_MS } from '@/lib/engine/game'
+import { REPLAY_SPEEDS } from '@/lib/replay'
+
+interface ReplayControlsProps {
+  position: number // Steps played
+  total: number
+  speed: number
+  paused: boolean
+  issues: string[] // Where an imported replay didn't reproduce its recorded result
+  onSeek: (position: number) => void
+  onSpeed: (speed: number) => void
+  onTogglePause: () => void
+  onExport: () => void
+  onExit: () => void
+}
+
+const clock = (steps: number) => {
+  const seconds = Math.floor(steps * STEP_MS / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+/** Transport bar shown over a replay: play/pause, speed and a scrubber. */
+export default function ReplayControls({ position, total, speed, paused, issues, onSeek, onSpeed, onTogglePause, onExport, onExit }: ReplayControlsProps) {
+  return (
+    <div
+      className="absolute bottom-0 left-0 w-full z-40 p-4 flex flex-col items-center gap-2 text-white"
+      onClick={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+    >
+      {issues.length > 0 && (
+        <p className="max-w-lg text-sm text-red-300 text-center bg-black/60 rounded-2xl px-4 py-2">
+          This replay doesn’t end the way it was recorded (probably made with another version of the game): {issues.join('; ')}
+        </p>
+      )}
+      <div className="w-full max-w-3xl flex items-center gap-3 bg-black/40 backdrop-blur-md rounded-full px-4 py-2 font-bold">
+        <button onClick={onTogglePause} aria-label={paused ? 'Play' : 'Pause'}>
+          {paused ? <Play size={22} className="fill-current" /> : <Pause size={22} />}
+        </button>
+        <span className="font-mono text-sm">{clock(position)}</span>
+        <input
+          type="range"
+          min={0}
+          max={total}
+          value={position}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          aria-label="Replay position"
+          className="flex-1 accent-yellow-400"
+        />
+        <span className="font-mono text-sm">{clock(total)}</span>
+        <div className="flex gap-1">
+          {REPLAY_SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => onSpeed(s)}
+              className={`px-2 rounded-full text-sm border-2 ${speed === s ? 'border-yellow-400 text-yellow-400' : 'border-white/20'}`}
+            >
+              {s}×
+            </button>
+          ))}
+        </div>
+        <button onClick={onExport} aria-label="Export replay">
+          <Download size={20} />
+        </button>
+        <button onClick={onExit} aria-label="Close replay">
+          <X size={22} />
+        </button>
+      </div>
+    </div>
+  )
+}
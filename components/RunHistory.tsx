@@ -0,0 +1,198 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ArrowLeft, Trophy } from 'lucide-react'
+import { useDialog } from '@/lib/dialog'
+import { type GameMode, type RunRecord, loadRecords, recentRuns, runStats, topRuns, updateInitials } from '@/lib/records'
+
+interface RunHistoryProps {
+  characters: { name: string; image: string }[]
+  initialCharacter: number
+  initialMode: GameMode
+  onClose: () => void
+}
+
+const MODES: { mode: GameMode; label: string }[] = [
+  { mode: 'campaign', label: 'Campaign' },
+  { mode: 'endless', label: 'Endless' },
+  { mode: 'daily', label: 'Daily Hole' },
+]
+
+// Normal runs go unmarked; anything else is tagged, since it didn't play the same game
+const difficultyBadge = (run: RunRecord) =>
+  [run.difficulty !== 'normal' ? run.difficulty : '', run.assist ? 'assist' : ''].filter(Boolean).join(' · ')
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+
+export default function RunHistory({ characters, initialCharacter, initialMode, onClose }: RunHistoryProps) {
+  const dialog = useDialog('Hall of Holes', onClose)
+  const [runs, setRuns] = useState<RunRecord[]>([])
+  const [character, setCharacter] = useState(initialCharacter)
+  const [mode, setMode] = useState(initialMode)
+
+  // localStorage is only there in the browser, so read it after mounting
+  useEffect(() => {
+    setRuns(loadRecords().runs)
+  }, [])
+
+  const characterName = characters[character]?.name ?? ''
+  const top = topRuns(runs, characterName, mode)
+  const recent = recentRuns(runs)
+  const stats = runStats(runs.filter(run => run.character === characterName))
+
+  return (
+    <div
+      {...dialog}
+      className="absolute inset-0 z-40 bg-black/95 text-white overflow-y-auto p-6 flex flex-col items-center"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="w-full max-w-2xl">
+        <button onClick={onClose} className="flex items-center gap-2 text-white/70 hover:text-white font-bold uppercase tracking-widest mb-6">
+          <ArrowLeft size={20} /> Back
+        </button>
+
+        <h2 className="text-5xl font-black mb-6 text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-pink-500">
+          HALL OF HOLES
+        </h2>
+
+        <div className="flex flex-wrap gap-3 mb-6">
+          {characters.map((char, idx) => (
+            <button
+              key={char.name}
+              onClick={() => setCharacter(idx)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-full border-2 font-bold ${character === idx ? 'border-yellow-400 text-yellow-400 bg-white/10' : 'border-white/20'}`}
+            >
+              <img src={char.image} alt="" className="w-6 h-6 rounded-full object-cover" />
+              {char.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-8">
+          {[
+            ['Runs', stats.runs],
+            ['Best', stats.bestScore],
+            ['Bricks broken', stats.bricksBroken],
+            ['Power-ups caught', stats.powerUpsCaught],
+          ].map(([label, value]) => (
+            <div key={label} className="bg-white/10 rounded-2xl p-3 text-center">
+              <div className="text-2xl font-black text-yellow-400">{value}</div>
+              <div className="text-xs uppercase tracking-widest text-white/60">{label}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-2">
+          <h3 className="text-xl font-bold uppercase tracking-widest text-pink-200 flex items-center gap-2">
+            <Trophy size={20} /> Best runs
+          </h3>
+          {MODES.map(tab => (
+            <button
+              key={tab.mode}
+              onClick={() => setMode(tab.mode)}
+              className={`px-3 py-1 rounded-full border-2 text-sm font-bold ${mode === tab.mode ? 'border-pink-300 text-pink-300 bg-white/10' : 'border-white/20'}`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        {top.length === 0 ? (
+          <p className="text-white/60 mb-8">No runs yet. Go find that hole.</p>
+        ) : (
+          <table className="w-full mb-8 text-left">
+            <thead className="text-xs uppercase tracking-widest text-white/50">
+              <tr>
+                <th className="py-1">#</th>
+                <th>Name</th>
+                <th className="text-right">Score</th>
+                <th className="text-right">Level</th>
+                <th className="text-right">Lives</th>
+                <th className="text-right">Seed</th>
+                <th className="text-right">Date</th>
+              </tr>
+            </thead>
+            <tbody>
+              {top.map((run, i) => (
+                <tr key={run.id} className="border-t border-white/10">
+                  <td className="py-1 font-bold text-yellow-400">{i + 1}</td>
+                  <td className="font-mono">
+                    {run.initials}
+                    {difficultyBadge(run) && <span className="ml-2 px-2 rounded-full bg-white/10 font-sans text-xs uppercase text-white/70">{difficultyBadge(run)}</span>}
+                  </td>
+                  <td className="text-right font-bold">{run.score}</td>
+                  <td className="text-right">{run.won ? '🏆' : run.level}</td>
+                  <td className="text-right">{run.lives}</td>
+                  <td className="text-right font-mono text-sm">
+                    {run.mode === 'daily' ? run.seed : (
+                      <a href={run.mode === 'endless' ? `/?seed=${run.seed}&mode=endless` : `/?seed=${run.seed}&pack=${run.pack}`} className="underline decoration-white/30 hover:text-yellow-400">{run.seed}</a>
+                    )}
+                  </td>
+                  <td className="text-right text-sm text-white/60">{formatDate(run.date)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <h3 className="text-xl font-bold uppercase tracking-widest text-pink-200 mb-2">Recent runs</h3>
+        {recent.length === 0 ? (
+          <p className="text-white/60">Nothing here yet.</p>
+        ) : (
+          <ul className="flex flex-col gap-1">
+            {recent.map(run => (
+              <li key={run.id} className="flex justify-between bg-white/5 rounded px-3 py-1 text-sm">
+                <span className="font-mono">{run.initials}</span>
+                <span>{run.character}</span>
+                <span>{run.pack}</span>
+                {difficultyBadge(run) && <span className="uppercase text-white/60">{difficultyBadge(run)}</span>}
+                <span>Level {run.level}</span>
+                <span className="font-bold">{run.score} pts</span>
+                <span className="text-white/60">{formatDate(run.date)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface NewRecordEntryProps {
+  run: RunRecord
+  rank: number
+}
+
+/** Shown on the end screens when a run lands in its leaderboard. */
+export function NewRecordEntry({ run, rank }: NewRecordEntryProps) {
+  const [initials, setInitials] = useState(run.initials === '???' ? '' : run.initials)
+  const [saved, setSaved] = useState(false)
+
+  const save = () => {
+    updateInitials(run.id, initials)
+    setSaved(true)
+  }
+
+  return (
+    <form
+      className="flex flex-col items-center gap-3 mb-10"
+      onClick={(e) => e.stopPropagation()}
+      onSubmit={(e) => { e.preventDefault(); save() }}
+    >
+      <span className="text-xl font-bold uppercase tracking-widest">New #{rank} for {run.character}!</span>
+      <div className="flex gap-2">
+        <input
+          value={initials}
+          onChange={(e) => { setInitials(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '')); setSaved(false) }}
+          placeholder="AAA"
+          maxLength={3}
+          autoFocus
+          aria-label="Your initials"
+          className="w-28 text-center text-3xl font-black font-mono uppercase rounded-xl bg-black/30 text-white px-2 py-1 border-2 border-white/30"
+        />
+        <button type="submit" className="px-5 rounded-xl bg-white text-black font-bold">
+          {saved ? 'SAVED' : 'SAVE'}
+        </button>
+      </div>
+    </form>
+  )
+}
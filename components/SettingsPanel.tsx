@@ -0,0 +1,157 @@
+'use client'
+
+import { ArrowLeft } from 'lucide-react'
+import { useDialog } from '@/lib/dialog'
+import { DEFAULT_SETTINGS, MOTION_PREFERENCES, type MotionPreference, SETTING_LIMITS, type Settings } from '@/lib/settings'
+import { THEMES, THEME_NAMES } from '@/lib/themes'
+
+interface SettingsPanelProps {
+  settings: Settings
+  onChange: (settings: Settings) => void
+  onClose: () => void
+}
+
+type Slider = keyof typeof SETTING_LIMITS
+
+const SECTIONS: { title: string; sliders: { key: Slider; label: string; off?: string }[] }[] = [
+  {
+    title: 'Sound',
+    sliders: [
+      { key: 'masterVolume', label: 'Master volume' },
+      { key: 'sfxVolume', label: 'Sound effects' },
+      { key: 'musicVolume', label: 'Music' },
+    ],
+  },
+  {
+    title: 'Effects',
+    sliders: [
+      { key: 'shake', label: 'Screen shake', off: 'Off' },
+      { key: 'particles', label: 'Particles', off: 'Off' },
+      { key: 'motivation', label: 'Motivations', off: 'Never' },
+    ],
+  },
+  {
+    title: 'Controls',
+    sliders: [
+      { key: 'sensitivity', label: 'Key & stick sensitivity' },
+    ],
+  },
+]
+
+const MOTION_LABELS: Record<MotionPreference, string> = {
+  system: 'Like my system',
+  full: 'Full',
+  reduced: 'Reduced',
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`
+
+// Motivations are a chance per brick; the rest are scales of the usual
+const formatValue = (key: Slider, value: number) =>
+  key === 'motivation' ? `${percent(value)} of bricks` : percent(value)
+
+/** Volumes, effects, motivations, sensitivity, theme and accessibility. Every change applies straight away and is saved. */
+export default function SettingsPanel({ settings, onChange, onClose }: SettingsPanelProps) {
+  const dialog = useDialog('Settings', onClose)
+  const set = <K extends keyof Settings>(key: K, value: Settings[K]) => onChange({ ...settings, [key]: value })
+
+  return (
+    <div
+      {...dialog}
+      className="absolute inset-0 z-50 bg-black/95 text-white overflow-y-auto p-6 flex flex-col items-center"
+      onClick={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+    >
+      <div className="w-full max-w-2xl">
+        <button onClick={onClose} className="flex items-center gap-2 text-white/70 hover:text-white font-bold uppercase tracking-widest mb-6">
+          <ArrowLeft size={20} /> Back
+        </button>
+
+        <h2 className="text-5xl font-black mb-6 text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-pink-500">
+          SETTINGS
+        </h2>
+
+        {SECTIONS.map(({ title, sliders }) => (
+          <section key={title} className="mb-8">
+            <h3 className="text-xl font-bold uppercase tracking-widest text-pink-200 mb-2">{title}</h3>
+            {title === 'Sound' && (
+              <label className="flex items-center justify-between py-2 border-t border-white/10 font-bold">
+                Mute everything
+                <input type="checkbox" checked={settings.muted} onChange={(e) => set('muted', e.target.checked)} className="w-5 h-5 accent-yellow-400" />
+              </label>
+            )}
+            {sliders.map(({ key, label, off }) => {
+              const [min, max, step] = SETTING_LIMITS[key]
+              const value = settings[key]
+              return (
+                <label key={key} className="flex items-center justify-between gap-4 py-2 border-t border-white/10">
+                  <span className="font-bold">{label}</span>
+                  <span className="flex items-center gap-3">
+                    <input
+                      type="range"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={value}
+                      onChange={(e) => set(key, e.target.valueAsNumber)}
+                      className="w-48 accent-yellow-400"
+                    />
+                    <span className="w-28 text-right font-mono text-sm text-white/70">{value === 0 && off ? off : formatValue(key, value)}</span>
+                  </span>
+                </label>
+              )
+            })}
+          </section>
+        ))}
+
+        <section className="mb-8">
+          <h3 className="text-xl font-bold uppercase tracking-widest text-pink-200 mb-2">Theme</h3>
+          <div className="flex flex-wrap gap-3">
+            {THEME_NAMES.map(theme => (
+              <button
+                key={theme}
+                onClick={() => set('theme', theme)}
+                aria-pressed={settings.theme === theme}
+                className={`px-4 py-2 rounded-full border-2 font-bold ${settings.theme === theme ? 'border-yellow-400 text-yellow-400 bg-white/10' : 'border-white/20 hover:border-white/50'}`}
+              >
+                {THEMES[theme].label}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section className="mb-8">
+          <h3 className="text-xl font-bold uppercase tracking-widest text-pink-200 mb-2">Accessibility</h3>
+          <div className="flex items-center justify-between gap-4 py-2 border-t border-white/10">
+            <span className="font-bold" id="motion-label">Motion</span>
+            <div className="flex flex-wrap gap-2" role="group" aria-labelledby="motion-label">
+              {MOTION_PREFERENCES.map(motion => (
+                <button
+                  key={motion}
+                  onClick={() => set('motion', motion)}
+                  aria-pressed={settings.motion === motion}
+                  className={`px-3 py-1 rounded-full border-2 text-sm font-bold ${settings.motion === motion ? 'border-yellow-400 text-yellow-400 bg-white/10' : 'border-white/20 hover:border-white/50'}`}
+                >
+                  {MOTION_LABELS[motion]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="pb-2 text-sm text-white/60">Reduced motion turns off screen shake, bouncing messages and confetti.</p>
+          <label className="flex items-center justify-between py-2 border-t border-white/10 font-bold">
+            Brick health patterns
+            <input type="checkbox" checked={settings.healthPatterns} onChange={(e) => set('healthPatterns', e.target.checked)} className="w-5 h-5 accent-yellow-400" />
+          </label>
+          <p className="text-sm text-white/60">Stripes, dots or hatching on bricks that take more than one hit, so health doesn't rely on colour. The Colourblind safe and High contrast themes always show them.</p>
+        </section>
+
+        <button
+          onClick={() => onChange(DEFAULT_SETTINGS)}
+          className="px-5 py-2 rounded-full bg-white/10 hover:bg-white/20 font-bold"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  )
+}
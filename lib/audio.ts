@@ -0,0 +1,362 @@
+import { isBreakable } from '@/lib/engine/game'
+import { POWER_UPS, type PowerUpType, powerUpDefinition } from '@/lib/engine/powerUps'
+import type { GameState } from '@/lib/engine/types'
+
+/**
+ * The game's sound: one AudioContext, with a sound-effect bus and a music
+ * bus feeding a master gain. Sounds play from sample files when a pack
+ * provides them and from small synth patches otherwise, so the game is never
+ * silent for want of assets. The background music is sequenced here and
+ * gets busier as a board empties. Browsers only let audio start from a
+ * click or key press, so the context is made (or resumed) on the first one.
+ */
+
+// --- Types ---
+
+export type SoundName = 'hit' | 'paddle' | 'powerup' | 'boom' | 'warp' | 'win' | 'lose' | 'saved' | 'sunk'
+
+export interface Volumes {
+  master: number // 0..1
+  sfx: number
+  music: number
+}
+
+export interface AudioManager {
+  attach: () => void // Listens for the first gesture to unlock audio
+  detach: () => void
+  setVolumes: (volumes: Volumes) => void
+  play: (sound: SoundName) => void
+  brickHit: () => void // Pitches up as hits come in quick succession
+  powerUp: (type: PowerUpType) => void
+  setIntensity: (intensity: number) => void // 0..1; see musicIntensity
+  startMusic: () => void
+  stopMusic: () => void
+  playSong: () => void // The level-transition song
+  stopSong: () => void
+  close: () => void
+}
+
+/** A one-note synth sound: a frequency sweep under a decaying envelope. */
+interface Patch {
+  wave: OscillatorType
+  from: number // Hz
+  to: number
+  glide: 'linear' | 'exponential'
+  gain: number
+  length: number // s
+}
+
+// --- Constants ---
+
+// Optional sample pack: a JSON object from sound names (and "powerup-<type>" and "music") to files beside it
+const MANIFEST_URL = '/assets/audio/sounds.json'
+const SONG_URL = '/assets/sweat.mp3'
+
+const PATCHES: Record<Exclude<SoundName, 'win'>, Patch> = {
+  hit: { wave: 'sine', from: 400, to: 0.01, glide: 'exponential', gain: 0.3, length: 0.1 },
+  paddle: { wave: 'square', from: 200, to: 0.01, glide: 'exponential', gain: 0.2, length: 0.1 },
+  powerup: { wave: 'triangle', from: 300, to: 600, glide: 'linear', gain: 0.2, length: 0.2 },
+  boom: { wave: 'sawtooth', from: 80, to: 20, glide: 'exponential', gain: 0.4, length: 0.25 },
+  warp: { wave: 'sine', from: 800, to: 200, glide: 'exponential', gain: 0.2, length: 0.15 },
+  lose: { wave: 'sawtooth', from: 100, to: 0.01, glide: 'exponential', gain: 0.3, length: 0.3 },
+  saved: { wave: 'sine', from: 300, to: 900, glide: 'linear', gain: 0.2, length: 0.2 },
+  sunk: { wave: 'triangle', from: 600, to: 150, glide: 'exponential', gain: 0.3, length: 0.3 },
+}
+
+const WIN_NOTES = [523.25, 659.25, 783.99, 1046.5] // C E G C
+const WIN_NOTE_LENGTH = 0.12
+
+// Brick hits within this long of each other climb a semitone each, up to an octave
+const HIT_STREAK_S = 0.5
+const MAX_HIT_STEPS = 12
+const HIT_DETUNE = 0.03 // Random ± pitch spread, so even the first hits don't sound identical
+
+// Power-ups each get their own pitch of the powerup patch; hazards get a falling one
+const POWER_UP_TYPES = Object.keys(POWER_UPS) as PowerUpType[]
+const POWER_UP_PITCHES = [1, 1.26, 1.5, 1.68, 2] // Steps of a major pentatonic-ish scale
+
+// Music: a sixteen-step loop. Tempo, layers and brightness all follow the intensity.
+const LOOKAHEAD_S = 0.1
+const SCHEDULE_MS = 25
+const MIN_BPM = 96
+const MAX_BPM = 132
+const BASS_NOTES = [55, 55, 65.41, 49] // A1 A1 C2 G1, one per beat
+const LEAD_NOTES = [220, 261.63, 329.63, 392, 329.63, 261.63] // Arpeggio over the top
+const MIN_CUTOFF = 500 // Hz, the music bus's low-pass at intensity 0
+const MAX_CUTOFF = 8000
+const VOLUME_RAMP_S = 0.05
+
+/**
+ * How worked-up the music should be for `state`: how much of the board is
+ * cleared, or in endless runs how far the rows have ramped.
+ */
+export function musicIntensity(state: GameState): number {
+  if (state.endless) return Math.min(1, state.endless.rows / 60)
+  const breakable = state.bricks.filter(isBreakable)
+  if (breakable.length === 0) return 1
+  return 1 - breakable.filter(brick => brick.status === 1).length / breakable.length
+}
+
+export function createAudioManager(): AudioManager {
+  let ctx: AudioContext | null = null
+  let master: GainNode | null = null
+  let sfxBus: GainNode | null = null
+  let musicBus: GainNode | null = null
+  let musicFilter: BiquadFilterNode | null = null
+  let volumes: Volumes = { master: 1, sfx: 1, music: 1 }
+
+  const samples = new Map<string, AudioBuffer>()
+  let song: AudioBufferSourceNode | null = null
+
+  let lastHitAt = -Infinity
+  let hitSteps = 0
+
+  let intensity = 0
+  let musicWanted = false
+  let sequencer: ReturnType<typeof setInterval> | null = null
+  let musicLoop: AudioBufferSourceNode | null = null // When the pack has its own music
+  let nextStepAt = 0
+  let stepIndex = 0
+
+  const gestures = ['pointerdown', 'keydown', 'touchend'] as const
+
+  // --- Setup ---
+
+  function unlock() {
+    if (ctx) {
+      if (ctx.state === 'suspended') ctx.resume().catch(e => console.log("Resuming audio failed", e))
+      return
+    }
+    const Context = window.AudioContext || (window as any).webkitAudioContext
+    if (!Context) return
+    ctx = new Context()
+    master = ctx.createGain()
+    sfxBus = ctx.createGain()
+    musicBus = ctx.createGain()
+    musicFilter = ctx.createBiquadFilter()
+    musicFilter.type = 'lowpass'
+    musicFilter.frequency.value = MIN_CUTOFF
+    sfxBus.connect(master)
+    musicBus.connect(musicFilter)
+    musicFilter.connect(master)
+    master.connect(ctx.destination)
+    applyVolumes()
+    loadSamples()
+    if (musicWanted) manager.startMusic()
+  }
+
+  function applyVolumes() {
+    if (!ctx || !master || !sfxBus || !musicBus) return
+    const now = ctx.currentTime
+    master.gain.setTargetAtTime(volumes.master, now, VOLUME_RAMP_S)
+    sfxBus.gain.setTargetAtTime(volumes.sfx, now, VOLUME_RAMP_S)
+    musicBus.gain.setTargetAtTime(volumes.music, now, VOLUME_RAMP_S)
+  }
+
+  // A missing file just leaves that sound on its synth patch
+  async function loadSample(name: string, url: string) {
+    try {
+      const response = await fetch(url)
+      if (!response.ok || !ctx) return
+      samples.set(name, await ctx.decodeAudioData(await response.arrayBuffer()))
+    } catch (e) {
+      console.log(`Loading sound ${name} failed`, e)
+    }
+  }
+
+  async function loadSamples() {
+    await loadSample('song', SONG_URL)
+    let manifest: Record<string, string> = {}
+    try {
+      const response = await fetch(MANIFEST_URL)
+      if (!response.ok) return
+      manifest = await response.json()
+    } catch {
+      return // No sample pack; the synths it is
+    }
+    const base = MANIFEST_URL.slice(0, MANIFEST_URL.lastIndexOf('/') + 1)
+    await Promise.all(Object.entries(manifest).map(([name, file]) => loadSample(name, base + file)))
+    // The pack's music takes over from the sequencer
+    if (samples.has('music') && sequencer) {
+      stopSequencer()
+      if (musicWanted) manager.startMusic()
+    }
+  }
+
+  // --- Playback ---
+
+  function playBuffer(buffer: AudioBuffer, bus: AudioNode, rate = 1, loop = false) {
+    const source = ctx!.createBufferSource()
+    source.buffer = buffer
+    source.playbackRate.value = rate
+    source.loop = loop
+    source.connect(bus)
+    source.start()
+    return source
+  }
+
+  function playPatch(patch: Patch, bus: AudioNode, pitch = 1, at = ctx!.currentTime) {
+    const osc = ctx!.createOscillator()
+    const gain = ctx!.createGain()
+    osc.type = patch.wave
+    osc.connect(gain)
+    gain.connect(bus)
+
+    osc.frequency.setValueAtTime(patch.from * pitch, at)
+    const end = at + patch.length
+    if (patch.glide === 'linear') {
+      osc.frequency.linearRampToValueAtTime(patch.to * pitch, end)
+      gain.gain.setValueAtTime(patch.gain, at)
+      gain.gain.linearRampToValueAtTime(0.01, end)
+    } else {
+      osc.frequency.exponentialRampToValueAtTime(patch.to * pitch, end)
+      gain.gain.setValueAtTime(patch.gain, at)
+      gain.gain.exponentialRampToValueAtTime(0.01, end)
+    }
+    osc.start(at)
+    osc.stop(end)
+  }
+
+  /** A sample if the pack has one, the synth patch otherwise. */
+  function playSound(name: string, patch: Patch, pitch = 1) {
+    if (!ctx || !sfxBus || volumes.master * volumes.sfx === 0) return
+    if (ctx.state === 'suspended') ctx.resume().catch(() => {})
+    const sample = samples.get(name)
+    if (sample) playBuffer(sample, sfxBus, pitch)
+    else playPatch(patch, sfxBus, pitch)
+  }
+
+  // --- Music ---
+
+  function scheduleStep(step: number, at: number) {
+    if (!ctx || !musicBus) return
+    const beat = step % 4 === 0
+    if (beat) {
+      const note = BASS_NOTES[(step / 4) % BASS_NOTES.length]
+      playPatch({ wave: 'sawtooth', from: note, to: note, glide: 'linear', gain: 0.25, length: 0.25 }, musicBus, 1, at)
+    }
+    // Hats come in on the eighths, then the sixteenths
+    if ((intensity > 0.3 && step % 2 === 0) || intensity > 0.7) {
+      playPatch({ wave: 'square', from: 8000, to: 6000, glide: 'exponential', gain: beat ? 0.04 : 0.025, length: 0.03 }, musicBus, 1, at)
+    }
+    if (intensity > 0.5 && step % 2 === 1) {
+      const note = LEAD_NOTES[Math.floor(step / 2) % LEAD_NOTES.length]
+      playPatch({ wave: 'triangle', from: note, to: note, glide: 'linear', gain: 0.08, length: 0.12 }, musicBus, 1, at)
+    }
+  }
+
+  function stopSequencer() {
+    if (sequencer) clearInterval(sequencer)
+    sequencer = null
+  }
+
+  // Schedules a little ahead on the audio clock, so timer jitter never shows up in the rhythm
+  function runSequencer() {
+    if (!ctx) return
+    const stepLength = 60 / (MIN_BPM + (MAX_BPM - MIN_BPM) * intensity) / 4
+    while (nextStepAt < ctx.currentTime + LOOKAHEAD_S) {
+      scheduleStep(stepIndex, nextStepAt)
+      nextStepAt += stepLength
+      stepIndex = (stepIndex + 1) % 16
+    }
+  }
+
+  const manager: AudioManager = {
+    attach() {
+      gestures.forEach(type => window.addEventListener(type, unlock))
+    },
+
+    detach() {
+      gestures.forEach(type => window.removeEventListener(type, unlock))
+    },
+
+    setVolumes(next) {
+      volumes = next
+      applyVolumes()
+    },
+
+    play(sound) {
+      if (sound !== 'win') {
+        playSound(sound, PATCHES[sound])
+        return
+      }
+      if (!ctx || !sfxBus || volumes.master * volumes.sfx === 0) return
+      const sample = samples.get('win')
+      if (sample) {
+        playBuffer(sample, sfxBus)
+        return
+      }
+      WIN_NOTES.forEach((note, i) => playPatch(
+        { wave: 'triangle', from: note, to: note, glide: 'linear', gain: 0.25, length: WIN_NOTE_LENGTH * 1.5 },
+        sfxBus!, 1, ctx!.currentTime + i * WIN_NOTE_LENGTH))
+    },
+
+    brickHit() {
+      if (!ctx) return
+      const now = ctx.currentTime
+      hitSteps = now - lastHitAt < HIT_STREAK_S ? Math.min(MAX_HIT_STEPS, hitSteps + 1) : 0
+      lastHitAt = now
+      const pitch = 2 ** (hitSteps / 12) * (1 + (Math.random() - 0.5) * 2 * HIT_DETUNE)
+      playSound('hit', PATCHES.hit, pitch)
+    },
+
+    powerUp(type) {
+      const index = Math.max(0, POWER_UP_TYPES.indexOf(type))
+      const pitch = POWER_UP_PITCHES[index % POWER_UP_PITCHES.length] * (index >= POWER_UP_PITCHES.length ? 2 : 1)
+      const patch = powerUpDefinition(type).harmful ? { ...PATCHES.powerup, wave: 'sawtooth' as const, from: 600, to: 200 } : PATCHES.powerup
+      // Its own sample, else the pack's general one at this power-up's pitch, else the synth
+      const own = `powerup-${type}`
+      if (samples.has(own)) playSound(own, patch)
+      else playSound('powerup', patch, pitch)
+    },
+
+    setIntensity(next) {
+      intensity = Math.max(0, Math.min(1, next))
+      if (!ctx || !musicFilter) return
+      musicFilter.frequency.setTargetAtTime(MIN_CUTOFF * (MAX_CUTOFF / MIN_CUTOFF) ** intensity, ctx.currentTime, 0.5)
+      if (musicLoop) musicLoop.playbackRate.setTargetAtTime(1 + intensity * 0.1, ctx.currentTime, 0.5)
+    },
+
+    startMusic() {
+      musicWanted = true
+      if (!ctx || !musicBus || sequencer || musicLoop) return
+      const loop = samples.get('music')
+      if (loop) {
+        musicLoop = playBuffer(loop, musicBus, 1, true)
+        return
+      }
+      nextStepAt = ctx.currentTime + 0.05
+      stepIndex = 0
+      sequencer = setInterval(runSequencer, SCHEDULE_MS)
+    },
+
+    stopMusic() {
+      musicWanted = false
+      stopSequencer()
+      musicLoop?.stop()
+      musicLoop = null
+    },
+
+    playSong() {
+      const buffer = samples.get('song')
+      if (!ctx || !musicBus || !buffer) return
+      manager.stopSong()
+      song = playBuffer(buffer, musicBus)
+    },
+
+    stopSong() {
+      song?.stop()
+      song = null
+    },
+
+    close() {
+      manager.detach()
+      manager.stopMusic()
+      manager.stopSong()
+      ctx?.close()
+      ctx = null
+    },
+  }
+
+  return manager
+}
@@ -0,0 +1,174 @@
+import { BRICK_HEIGHT, BRICK_OFFSET_TOP, BRICK_PADDING, createGame, isBreakable, loadLevel } from '@/lib/engine/game'
+import { type BrickCell, type GeneratorLevel, type GridLevel, type HoleSpec, LEVEL_FORMAT_VERSION, type LevelDefinition, type LevelPack } from '@/lib/engine/levels'
+import { seedFromText } from '@/lib/engine/rng'
+import type { GameState } from '@/lib/engine/types'
+import { type Migrations, type StoredBlob, migrate } from '@/lib/storage'
+
+/**
+ * The Daily Hole: the same few boards for everyone on a given date. The level
+ * generator builds them from a seed hashed out of the date, on a fixed-size
+ * board, and they're frozen into grid levels so they lay out the same on any
+ * screen. The first run each day is the scored attempt; the rest are
+ * practice. Everything stays in the browser, so there's no server to trust.
+ */
+
+// --- Types ---
+
+export interface DailyResult {
+  date: string // The daily's key, YYYY-MM-DD
+  score: number
+  level: number // Level reached
+  levels: number // Out of
+  won: boolean
+  time: number // ms played
+  grid: string // Emoji picture of the board the run ended on
+  finished: boolean // False while the attempt is still being played (or was abandoned)
+}
+
+interface DailyFile {
+  version: number
+  results: DailyResult[]
+}
+
+// --- Constants ---
+const STORAGE_KEY = 'brown-hole:daily'
+const DAILY_VERSION = 1
+const MAX_RESULTS = 100 // Oldest days are dropped beyond this
+const DAILY_LEVELS = 3
+const DAILY_BOARD = { width: 800, height: 600 } // What the generator lays the boards out on
+export const DAILY_PACK_ID = 'daily'
+
+// Share grid: standing, broken, unbreakable, empty
+const CELLS = { standing: '🟫', broken: '🟩', solid: '⬜', empty: '⬛' }
+
+const MIGRATIONS: Migrations = {}
+
+const emptyFile = (): DailyFile => ({ version: DAILY_VERSION, results: [] })
+
+const validate = ({ results }: StoredBlob): DailyFile | null =>
+  Array.isArray(results) ? { version: DAILY_VERSION, results } : null
+
+// --- Boards ---
+
+/** Today's key in the player's own time zone, so the daily turns over at their midnight. */
+export function dailyKey(date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+export const dailySeed = (key: string) => seedFromText(`brown-hole:daily:${key}`)
+
+// Each daily level is a notch harder than the campaign level it stands in for
+const dailyGenerator = (level: number): GeneratorLevel => ({ kind: 'generator', difficulty: level + 1 })
+
+/** Builds the date's boards. Same key, same pack, whatever the screen. */
+export function dailyPack(key: string): LevelPack {
+  const state = createGame(DAILY_BOARD.width, DAILY_BOARD.height, dailySeed(key), dailyGenerator(1))
+  const levels: GridLevel[] = []
+  for (let level = 1; level <= DAILY_LEVELS; level++) {
+    if (level > 1) loadLevel(state, level, dailyGenerator(level))
+    levels.push({ ...freezeBoard(state), name: `Daily Hole ${level}/${DAILY_LEVELS}` })
+  }
+  return { version: LEVEL_FORMAT_VERSION, name: `Daily Hole ${key}`, levels }
+}
+
+/**
+ * Turns a generated board back into a grid level. Shield bricks become the
+ * hole's shield again; portals re-pair in reading order.
+ */
+function freezeBoard(state: GameState): GridLevel {
+  const bricks = state.bricks.filter(brick => brick.guards === undefined)
+  const pitchX = bricks[0].width + BRICK_PADDING
+  const pitchY = BRICK_HEIGHT + BRICK_PADDING
+  const left = Math.min(...bricks.map(brick => brick.originX ?? brick.x))
+  const column = (x: number) => (x - left) / pitchX
+  const row = (y: number) => (y - BRICK_OFFSET_TOP) / pitchY
+
+  const rows = Math.round(Math.max(...bricks.map(brick => row(brick.y)))) + 1
+  const columns = Math.round(Math.max(...bricks.map(brick => column(brick.originX ?? brick.x)))) + 1
+  const cells: (BrickCell | null)[][] = Array.from({ length: rows }, () => Array(columns).fill(null))
+  bricks.forEach(brick => {
+    cells[Math.round(row(brick.y))][Math.round(column(brick.originX ?? brick.x))] =
+      isBreakable(brick) ? { type: brick.type, health: brick.health } : { type: brick.type }
+  })
+
+  const [hole, ...extraHoles] = state.holes.map((hole, index): HoleSpec => {
+    const spec: HoleSpec = { column: column(hole.x), row: row(hole.y), radius: hole.baseRadius ?? hole.radius }
+    if (hole.path) spec.path = hole.path.map(point => ({ column: column(point.x), row: row(point.y) }))
+    if (hole.speed) spec.speed = hole.speed
+    if (hole.pulse) spec.pulse = hole.pulse
+    if (hole.gravity) spec.gravity = hole.gravity
+    if (hole.bonus) spec.bonus = hole.bonus
+    const shield = state.bricks.find(brick => brick.guards === index)
+    if (shield) spec.shield = shield.maxHealth
+    return spec
+  })
+  return { kind: 'grid', bricks: cells, hole, ...(extraHoles.length > 0 ? { extraHoles } : {}) }
+}
+
+// --- Storage ---
+
+function loadFile(): DailyFile {
+  if (typeof window === 'undefined') return emptyFile()
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return emptyFile()
+    const migrated = migrate(JSON.parse(raw), DAILY_VERSION, MIGRATIONS, validate)
+    if (!migrated) {
+      console.log("Discarding unreadable daily results")
+      return emptyFile()
+    }
+    return migrated
+  } catch (e) {
+    console.log("Loading daily results failed", e)
+    return emptyFile()
+  }
+}
+
+/** The day's scored attempt, finished or not, or null if it hasn't been played. */
+export function loadDailyResult(key: string): DailyResult | null {
+  return loadFile().results.find(result => result.date === key) ?? null
+}
+
+/** Stores the day's scored attempt, replacing what was there for that date. */
+export function saveDailyResult(result: DailyResult) {
+  const file = loadFile()
+  file.results = [...file.results.filter(r => r.date !== result.date), result].slice(-MAX_RESULTS)
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(file))
+  } catch (e) {
+    console.log("Saving daily result failed", e)
+  }
+}
+
+// --- Sharing ---
+
+/**
+ * Draws the board a run ended on. Grid levels lay their bricks out in
+ * reading order, so the state's bricks line up with the level's cells.
+ */
+export function boardGrid(level: LevelDefinition, state: GameState): string {
+  if (level.kind !== 'grid') return ''
+  let next = 0
+  return level.bricks.map(row => row.map(cell => {
+    if (!cell) return CELLS.empty
+    const brick = state.bricks[next++]
+    if (!brick || !isBreakable(brick)) return CELLS.solid
+    return brick.status === 1 ? CELLS.standing : CELLS.broken
+  }).join('')).join('\n')
+}
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+/** What gets pasted elsewhere: score, how far the run got, its time and the board it ended on. */
+export function shareText(result: DailyResult): string {
+  const reached = result.won ? `All ${result.levels} levels 🏆` : `Level ${result.level}/${result.levels}`
+  return [
+    `Brown Hole · Daily Hole ${result.date}`,
+    `${result.score} pts · ${reached} · ${formatTime(result.time)}`,
+    result.grid,
+  ].join('\n')
+}
@@ -0,0 +1,58 @@
+import { useEffect, useLayoutEffect, useRef } from 'react'
+
+/**
+ * Keyboard handling for the full-screen panels (settings, controls, the
+ * Hall of Holes and so on): focus moves into the panel when it opens, Tab
+ * stays inside it, Escape closes it, and focus goes back to whatever opened
+ * it afterwards. Spread the returned props onto the panel's outer element.
+ */
+
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), a[href], [tabindex]:not([tabindex="-1"])'
+
+const focusables = (root: HTMLElement) =>
+  Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(el => el.offsetParent !== null || el === document.activeElement)
+
+export function useDialog<T extends HTMLElement = HTMLDivElement>(label: string, onClose: () => void) {
+  const ref = useRef<T>(null)
+  const onCloseRef = useRef(onClose)
+  useLayoutEffect(() => { onCloseRef.current = onClose })
+
+  useEffect(() => {
+    const dialog = ref.current
+    if (!dialog) return
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null
+    focusables(dialog)[0]?.focus()
+
+    // On the document, so it runs before the game's own key handling on the window
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        e.stopPropagation()
+        onCloseRef.current()
+        return
+      }
+      if (e.key !== 'Tab') return
+      const items = focusables(dialog)
+      if (items.length === 0) return
+      const first = items[0]
+      const last = items[items.length - 1]
+      if (!dialog.contains(document.activeElement)) {
+        e.preventDefault()
+        first.focus()
+      } else if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault()
+        last.focus()
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault()
+        first.focus()
+      }
+    }
+    document.addEventListener('keydown', onKeyDown)
+    return () => {
+      document.removeEventListener('keydown', onKeyDown)
+      if (opener?.isConnected) opener.focus()
+    }
+  }, [])
+
+  return { ref, role: 'dialog', 'aria-modal': true, 'aria-label': label } as const
+}
@@ -0,0 +1,65 @@
+import { DIFFICULTY_PRESETS, type DifficultyPreset, type DifficultySettings, clampDifficulty } from '@/lib/engine/difficulty'
+import { type Migrations, type StoredBlob, migrate } from '@/lib/storage'
+
+/**
+ * The difficulty picked on the menu, kept in localStorage: the preset, the
+ * custom settings (remembered even while a preset is picked) and whether
+ * assist mode is on. Versioned like the other stored blobs.
+ */
+
+// --- Types ---
+
+export interface DifficultyChoice {
+  preset: DifficultyPreset
+  custom: DifficultySettings
+  assist: boolean
+}
+
+// --- Constants ---
+const STORAGE_KEY = 'brown-hole:difficulty'
+const DIFFICULTY_VERSION = 1
+
+const MIGRATIONS: Migrations = {}
+
+export const DEFAULT_DIFFICULTY: DifficultyChoice = { preset: 'normal', custom: DIFFICULTY_PRESETS.normal, assist: false }
+
+const PRESETS: DifficultyPreset[] = [...Object.keys(DIFFICULTY_PRESETS) as DifficultyPreset[], 'custom']
+
+const validate = ({ preset, custom, assist }: StoredBlob): DifficultyChoice => ({
+  preset: PRESETS.find(name => name === preset) ?? DEFAULT_DIFFICULTY.preset,
+  custom: clampDifficulty(typeof custom === 'object' && custom !== null ? custom : {}),
+  assist: assist === true,
+})
+
+/** The settings a run plays with under `choice`. */
+export const difficultySettings = (choice: DifficultyChoice): DifficultySettings =>
+  choice.preset === 'custom' ? choice.custom : DIFFICULTY_PRESETS[choice.preset]
+
+/** Which preset `settings` are, or custom if none match; runs resumed from a save only carry the settings. */
+export function presetOf(settings: DifficultySettings): DifficultyPreset {
+  const keys = Object.keys(settings) as (keyof DifficultySettings)[]
+  const names = Object.keys(DIFFICULTY_PRESETS) as (keyof typeof DIFFICULTY_PRESETS)[]
+  return names.find(name => keys.every(key => DIFFICULTY_PRESETS[name][key] === settings[key])) ?? 'custom'
+}
+
+// --- Storage ---
+
+export function loadDifficulty(): DifficultyChoice {
+  if (typeof window === 'undefined') return DEFAULT_DIFFICULTY
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return DEFAULT_DIFFICULTY
+    return migrate(JSON.parse(raw), DIFFICULTY_VERSION, MIGRATIONS, validate) ?? DEFAULT_DIFFICULTY
+  } catch (e) {
+    console.log("Loading difficulty failed", e)
+    return DEFAULT_DIFFICULTY
+  }
+}
+
+export function saveDifficulty(choice: DifficultyChoice) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: DIFFICULTY_VERSION, ...choice }))
+  } catch (e) {
+    console.log("Saving difficulty failed", e)
+  }
+}
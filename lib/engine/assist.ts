@@ -0,0 +1,67 @@
+import { type Rect, reflect, sweepCircleRect } from './collision'
+import { isBreakable } from './game'
+import type { Ball, GameState } from './types'
+
+/**
+ * Assist mode's trajectory preview. Casts a ball along its current heading,
+ * bouncing off the walls and standing bricks, until it comes back down to
+ * the paddles. It's only a guess: bricks are treated as if they'll still be
+ * there, and it never touches the state, so the run plays the same with or
+ * without it.
+ */
+
+// --- Constants ---
+const MAX_BOUNCES = 6
+const MAX_LENGTH = 3 // Board heights of path before giving up
+const EDGE = 1000 // Thickness of the wall rects, as in the engine
+
+export interface PathPoint {
+  x: number
+  y: number
+}
+
+/** Where `ball` is headed: its position, then each bounce, then where it reaches the paddles. Empty for a ball still on a paddle. */
+export function predictPath(state: GameState, ball: Ball): PathPoint[] {
+  if (ball.isAttached || (ball.dx === 0 && ball.dy === 0)) return []
+
+  const { width, height } = state
+  const paddleY = Math.min(...state.paddles.map(paddle => paddle.y))
+  const walls: Rect[] = [
+    { x: -EDGE, y: -EDGE, width: EDGE, height: height + 2 * EDGE },
+    { x: width, y: -EDGE, width: EDGE, height: height + 2 * EDGE },
+    { x: -EDGE, y: -EDGE, width: width + 2 * EDGE, height: EDGE },
+  ]
+  // A through ball goes straight through anything breakable; portals end the guess
+  const bricks = state.bricks.filter(brick => brick.status === 1 && !(ball.isThrough && isBreakable(brick)))
+
+  const points: PathPoint[] = [{ x: ball.x, y: ball.y }]
+  let { x, y, dx, dy } = ball
+  let remaining = height * MAX_LENGTH
+  for (let bounce = 0; bounce <= MAX_BOUNCES && remaining > 0; bounce++) {
+    const speed = Math.hypot(dx, dy)
+    const moveX = dx / speed * remaining
+    const moveY = dy / speed * remaining
+
+    // Where it comes down to the paddles, if that's before anything else
+    let time = moveY > 0 ? (paddleY - ball.radius - y) / moveY : Infinity
+    let normal: { normalX: number; normalY: number } | null = null
+    let portal = false
+    for (const rect of [...walls, ...bricks]) {
+      const contact = sweepCircleRect(x, y, moveX, moveY, ball.radius, rect)
+      if (contact && contact.time < time) {
+        time = contact.time
+        normal = contact
+        portal = 'link' in rect && rect.link !== undefined
+      }
+    }
+
+    const reached = Math.min(1, Math.max(0, time))
+    x += moveX * reached
+    y += moveY * reached
+    points.push({ x, y })
+    if (!normal || portal) break
+    remaining *= 1 - reached
+    ;({ dx, dy } = reflect(dx, dy, normal.normalX, normal.normalY))
+  }
+  return points
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { sweepCircleRect } from './collision'
+
+// A brick from (50, 40) to (60, 60), and a ball of radius 5
+const BRICK = { x: 50, y: 40, width: 10, height: 20 }
+const RADIUS = 5
+
+describe('sweepCircleRect', () => {
+  it('hits a face head-on where the edge of the ball meets it', () => {
+    const contact = sweepCircleRect(0, 50, 100, 0, RADIUS, BRICK)
+    expect(contact?.time).toBeCloseTo(0.45)
+    expect(contact).toMatchObject({ normalX: -1, normalY: 0, depth: 0 })
+  })
+
+  it('misses when the path stays clear', () => {
+    expect(sweepCircleRect(0, 20, 100, 0, RADIUS, BRICK)).toBeNull()
+    expect(sweepCircleRect(0, 50, 30, 0, RADIUS, BRICK)).toBeNull() // Stops short
+  })
+
+  it('meets a corner later than the square-cornered sweep would', () => {
+    // 4 px above the top face, so it touches the rounded corner at x = 47, not 45
+    const contact = sweepCircleRect(0, 36, 100, 0, RADIUS, BRICK)
+    expect(contact?.time).toBeCloseTo(0.47)
+    expect(contact?.normalX).toBeCloseTo(-0.6)
+    expect(contact?.normalY).toBeCloseTo(-0.8)
+  })
+
+  it('hits a corner diagonally along the corner normal', () => {
+    const contact = sweepCircleRect(40, 30, 20, 20, RADIUS, BRICK)
+    expect(contact?.time).toBeCloseTo((10 - RADIUS / Math.SQRT2) / 20)
+    expect(contact?.normalX).toBeCloseTo(-Math.SQRT1_2)
+    expect(contact?.normalY).toBeCloseTo(-Math.SQRT1_2)
+  })
+
+  it('slips past a corner that only the square-cornered sweep would clip', () => {
+    expect(sweepCircleRect(36, 46, 20, -20, RADIUS, BRICK)).toBeNull()
+  })
+
+  it('catches a fast ball that would jump over a thin brick in one step', () => {
+    const thin = { x: 50, y: 200, width: 10, height: 2 }
+    const contact = sweepCircleRect(55, 0, 0, 500, RADIUS, thin)
+    expect(contact?.time).toBeCloseTo(0.39)
+    expect(contact).toMatchObject({ normalX: 0, normalY: -1 })
+  })
+
+  describe('when already overlapping', () => {
+    it('pushes out along the shortest way from the nearest point', () => {
+      expect(sweepCircleRect(47, 50, 1, 0, RADIUS, BRICK)).toEqual({ time: 0, normalX: -1, normalY: 0, depth: 2 })
+    })
+
+    it('leaves through the nearest face when the centre is inside', () => {
+      expect(sweepCircleRect(52, 50, 1, 0, RADIUS, BRICK)).toEqual({ time: 0, normalX: -1, normalY: 0, depth: 7 })
+    })
+
+    it('lets a ball that is already moving away go', () => {
+      expect(sweepCircleRect(47, 50, -1, 0, RADIUS, BRICK)).toBeNull()
+      expect(sweepCircleRect(52, 50, -1, 0, RADIUS, BRICK)).toBeNull()
+    })
+  })
+})
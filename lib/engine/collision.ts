@@ -0,0 +1,148 @@
+/**
+ * Swept circle-vs-rectangle collision. Balls move several pixels per step,
+ * so testing only where they end up lets fast balls tunnel through bricks.
+ * Instead we cast the circle along its path and report the first contact.
+ */
+
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface Contact {
+  time: number // Fraction of the movement (0..1) at which the circle touches
+  normalX: number // Unit normal pointing from the rect towards the circle
+  normalY: number
+  depth: number // > 0 when the circle already overlapped the rect at time 0
+}
+
+/**
+ * Casts a circle at (x, y) with radius `radius` along (moveX, moveY).
+ * Returns null when it doesn't touch `rect` during the move, or when it is
+ * already moving away from it.
+ */
+export function sweepCircleRect(
+  x: number,
+  y: number,
+  moveX: number,
+  moveY: number,
+  radius: number,
+  rect: Rect
+): Contact | null {
+  const left = rect.x
+  const right = rect.x + rect.width
+  const top = rect.y
+  const bottom = rect.y + rect.height
+
+  // Already touching: push out along the shortest way
+  const closestX = Math.min(Math.max(x, left), right)
+  const closestY = Math.min(Math.max(y, top), bottom)
+  const offsetX = x - closestX
+  const offsetY = y - closestY
+  const distSq = offsetX * offsetX + offsetY * offsetY
+  if (distSq < radius * radius) {
+    let normalX: number
+    let normalY: number
+    let depth: number
+    if (distSq > 0) {
+      const dist = Math.sqrt(distSq)
+      normalX = offsetX / dist
+      normalY = offsetY / dist
+      depth = radius - dist
+    } else {
+      // Centre is inside the rect: leave through the nearest face
+      const exits = [
+        { normalX: -1, normalY: 0, depth: x - left },
+        { normalX: 1, normalY: 0, depth: right - x },
+        { normalX: 0, normalY: -1, depth: y - top },
+        { normalX: 0, normalY: 1, depth: bottom - y },
+      ].sort((a, b) => a.depth - b.depth)
+      ;({ normalX, normalY } = exits[0])
+      depth = exits[0].depth + radius
+    }
+    if (moveX * normalX + moveY * normalY >= 0) return null
+    return { time: 0, normalX, normalY, depth }
+  }
+
+  // Ray against the rect grown by the radius (slab test)
+  let enter = -Infinity
+  let exit = Infinity
+  let normalX = 0
+  let normalY = 0
+
+  if (moveX === 0) {
+    if (x < left - radius || x > right + radius) return null
+  } else {
+    const t1 = (left - radius - x) / moveX
+    const t2 = (right + radius - x) / moveX
+    enter = Math.min(t1, t2)
+    exit = Math.max(t1, t2)
+    normalX = moveX > 0 ? -1 : 1
+  }
+
+  if (moveY === 0) {
+    if (y < top - radius || y > bottom + radius) return null
+  } else {
+    const t1 = (top - radius - y) / moveY
+    const t2 = (bottom + radius - y) / moveY
+    const enterY = Math.min(t1, t2)
+    if (enterY > enter) {
+      enter = enterY
+      normalX = 0
+      normalY = moveY > 0 ? -1 : 1
+    }
+    exit = Math.min(exit, Math.max(t1, t2))
+  }
+
+  if (enter > exit || enter > 1 || exit < 0) return null
+
+  // The grown rect has square corners but the real shape is rounded there,
+  // so hits in a corner region are redone against a circle at that corner.
+  const time = Math.max(enter, 0)
+  const hitX = x + moveX * time
+  const hitY = y + moveY * time
+  const cornerX = hitX < left ? left : hitX > right ? right : null
+  const cornerY = hitY < top ? top : hitY > bottom ? bottom : null
+
+  if (cornerX !== null && cornerY !== null) {
+    const cornerTime = sweepCirclePoint(x, y, moveX, moveY, radius, cornerX, cornerY)
+    if (cornerTime === null) return null
+    const cx = x + moveX * cornerTime - cornerX
+    const cy = y + moveY * cornerTime - cornerY
+    const length = Math.sqrt(cx * cx + cy * cy) || 1
+    return { time: cornerTime, normalX: cx / length, normalY: cy / length, depth: 0 }
+  }
+
+  if (enter < 0) return null
+  return { time: enter, normalX, normalY, depth: 0 }
+}
+
+/** First time (0..1) a moving circle touches a fixed point, or null. */
+function sweepCirclePoint(
+  x: number,
+  y: number,
+  moveX: number,
+  moveY: number,
+  radius: number,
+  pointX: number,
+  pointY: number
+): number | null {
+  const fx = x - pointX
+  const fy = y - pointY
+  const a = moveX * moveX + moveY * moveY
+  if (a === 0) return null
+  const b = 2 * (fx * moveX + fy * moveY)
+  const c = fx * fx + fy * fy - radius * radius
+  const discriminant = b * b - 4 * a * c
+  if (discriminant < 0) return null
+  const t = (-b - Math.sqrt(discriminant)) / (2 * a)
+  return t >= 0 && t <= 1 ? t : null
+}
+
+/** Mirrors a velocity about a contact normal. */
+export function reflect(dx: number, dy: number, normalX: number, normalY: number) {
+  const dot = dx * normalX + dy * normalY
+  return { dx: dx - 2 * dot * normalX, dy: dy - 2 * dot * normalY }
+}
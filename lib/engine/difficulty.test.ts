@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest'
+import { DIFFICULTY_PRESETS, clampDifficulty, paddleWidth } from './difficulty'
+
+describe('clampDifficulty', () => {
+  it('keeps the smallest paddle no wider than the starting one', () => {
+    const settings = clampDifficulty({ ...DIFFICULTY_PRESETS.normal, paddleWidth: 80, minPaddleWidth: 150 })
+    expect(settings.minPaddleWidth).toBe(80)
+    expect(paddleWidth(10, settings)).toBeLessThanOrEqual(paddleWidth(0, settings))
+  })
+
+  it('leaves a floor below the starting width alone', () => {
+    expect(clampDifficulty({ ...DIFFICULTY_PRESETS.normal, paddleWidth: 120, minPaddleWidth: 70 }).minPaddleWidth).toBe(70)
+  })
+})
@@ -0,0 +1,80 @@
+/**
+ * Difficulty presets. How wide the paddle is, how hard balls are launched,
+ * the lives, how often power-ups drop and the ball's size and top speed all
+ * come from one of these. The settings ride along on the state, so a saved
+ * run or a replay keeps whatever it was played with.
+ */
+
+// --- Types ---
+
+export interface DifficultySettings {
+  paddleWidth: number // On level 0; every level takes paddleShrink off, down to minPaddleWidth
+  paddleShrink: number
+  minPaddleWidth: number
+  launchSpeed: number // px per 60 Hz frame on level 0, plus launchSpeedPerLevel every level
+  launchSpeedPerLevel: number
+  lives: number
+  powerUpChance: number // Per broken brick, 0..1
+  ballRadius: number
+  maxBallSpeed: number // px per 60 Hz frame, power-ups included
+}
+
+// --- Presets ---
+
+export const DIFFICULTY_PRESETS = {
+  easy: {
+    paddleWidth: 130, paddleShrink: 3, minPaddleWidth: 90,
+    launchSpeed: 3.5, launchSpeedPerLevel: 0.3,
+    lives: 8, powerUpChance: 0.3, ballRadius: 15, maxBallSpeed: 9,
+  },
+  normal: {
+    paddleWidth: 100, paddleShrink: 5, minPaddleWidth: 60,
+    launchSpeed: 4, launchSpeedPerLevel: 0.5,
+    lives: 5, powerUpChance: 0.2, ballRadius: 12, maxBallSpeed: 16,
+  },
+  hard: {
+    paddleWidth: 85, paddleShrink: 5, minPaddleWidth: 50,
+    launchSpeed: 5, launchSpeedPerLevel: 0.6,
+    lives: 3, powerUpChance: 0.12, ballRadius: 10, maxBallSpeed: 20,
+  },
+} satisfies Record<string, DifficultySettings>
+
+export type DifficultyPreset = keyof typeof DIFFICULTY_PRESETS | 'custom'
+
+export const DIFFICULTY_PRESET_NAMES = Object.keys(DIFFICULTY_PRESETS) as (keyof typeof DIFFICULTY_PRESETS)[]
+
+/** What custom settings may be set to: [min, max, step]. */
+export const DIFFICULTY_LIMITS: Record<keyof DifficultySettings, [min: number, max: number, step: number]> = {
+  paddleWidth: [40, 200, 5],
+  paddleShrink: [0, 10, 1],
+  minPaddleWidth: [30, 200, 5],
+  launchSpeed: [2, 10, 0.5],
+  launchSpeedPerLevel: [0, 1.5, 0.1],
+  lives: [1, 20, 1],
+  powerUpChance: [0, 1, 0.05],
+  ballRadius: [6, 24, 1],
+  maxBallSpeed: [4, 30, 1],
+}
+
+// --- Helpers ---
+
+/** The paddle's usual width on `level`; girthy grows it from here. */
+export const paddleWidth = (level: number, settings: DifficultySettings = DIFFICULTY_PRESETS.normal) =>
+  Math.max(settings.minPaddleWidth, settings.paddleWidth - level * settings.paddleShrink)
+
+export const launchSpeed = (level: number, settings: DifficultySettings) =>
+  settings.launchSpeed + level * settings.launchSpeedPerLevel
+
+/** Custom settings from storage or a form, pulled into range; anything missing comes from normal. */
+export function clampDifficulty(value: Partial<Record<keyof DifficultySettings, unknown>>): DifficultySettings {
+  const entries = (Object.keys(DIFFICULTY_LIMITS) as (keyof DifficultySettings)[]).map(key => {
+    const [min, max] = DIFFICULTY_LIMITS[key]
+    const raw = value[key]
+    const number = typeof raw === 'number' && Number.isFinite(raw) ? raw : DIFFICULTY_PRESETS.normal[key]
+    return [key, Math.min(max, Math.max(min, number))]
+  })
+  const settings = Object.fromEntries(entries) as DifficultySettings
+  // The floor can't sit above the starting width, or shrinking levels would grow the paddle
+  settings.minPaddleWidth = Math.min(settings.minPaddleWidth, settings.paddleWidth)
+  return settings
+}
@@ -0,0 +1,57 @@
+import { type GeneratorLevel, LEVEL_FORMAT_VERSION, type LevelPack } from './levels'
+
+/**
+ * Endless mode pacing. The board keeps creeping down and a new row of bricks
+ * goes in at the top each time there's room for one; the run ends when a
+ * breakable brick reaches the paddles or the lives run out. Everything
+ * ramps with the number of rows pushed in so far: how fast they come, how
+ * tough and how often unbreakable they are, and how fast the balls move.
+ * The hole doesn't end anything here: sinking the ball in it pays out and
+ * serves the ball again.
+ */
+
+// --- Constants ---
+const START_ROWS = 4
+const ROWS_PER_LEVEL = 6 // The level (paddle size, launch speed, hazards) goes up this often
+const FIRST_ROW_MS = 12000 // How long the first rows take to come down one row's height
+const ROW_MS_STEP = 250 // Each row after that comes down this much sooner
+const MIN_ROW_MS = 4000
+const UNBREAKABLE_START = 0.02
+const UNBREAKABLE_STEP = 0.004 // Per row
+const MAX_UNBREAKABLE = 0.2
+const BALL_SPEED_STEP = 0.015 // Per row
+const MAX_BALL_SPEED = 1.6
+const SINK_SCORE = 250
+const SINK_SCORE_PER_LEVEL = 50
+
+/** The opening board, built by the usual generator. */
+export const ENDLESS_LEVEL: GeneratorLevel = {
+  kind: 'generator',
+  name: 'Endless',
+  rows: START_ROWS,
+  difficulty: 1,
+  unbreakableChance: UNBREAKABLE_START,
+  movingRows: 0,
+  portalPairs: 0,
+  bonusHoles: 0,
+  holeShield: 0,
+}
+
+/** What endless runs record and replay against, in place of a campaign pack. */
+export const ENDLESS_PACK: LevelPack = { version: LEVEL_FORMAT_VERSION, name: 'Endless', levels: [ENDLESS_LEVEL] }
+
+export const ENDLESS_PACK_ID = 'endless'
+
+// --- Ramp ---
+
+export const endlessLevel = (rows: number) => 1 + Math.floor(rows / ROWS_PER_LEVEL)
+
+/** ms for the board to come down one row's height. */
+export const rowInterval = (rows: number) => Math.max(MIN_ROW_MS, FIRST_ROW_MS - rows * ROW_MS_STEP)
+
+export const unbreakableChance = (rows: number) => Math.min(MAX_UNBREAKABLE, UNBREAKABLE_START + rows * UNBREAKABLE_STEP)
+
+/** Multiplies every ball's speed, on top of power-ups. */
+export const endlessBallSpeed = (rows: number) => Math.min(MAX_BALL_SPEED, 1 + rows * BALL_SPEED_STEP)
+
+export const sinkScore = (level: number) => SINK_SCORE + (level - 1) * SINK_SCORE_PER_LEVEL
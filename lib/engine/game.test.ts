@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { STEP_MS, createGame, step } from './game'
+import { DEFAULT_LEVEL_PACK } from './levels'
+import type { GameEvent, GameInput, GameState } from './types'
+
+const MAX_STEPS = 120_000
+
+/** Steps `state` with inputs from `play` until an event matches `until`; returns every event so far. */
+function runUntil(state: GameState, play: (state: GameState, t: number) => GameInput, until: (event: GameEvent) => boolean) {
+  const events: GameEvent[] = []
+  for (let t = 0; t < MAX_STEPS && state.status === 'playing'; t++) {
+    const stepped = step(state, [play(state, t)], STEP_MS)
+    events.push(...stepped)
+    if (stepped.some(until)) break
+  }
+  return events
+}
+
+const newGame = (seed: number) => createGame(800, 600, seed, DEFAULT_LEVEL_PACK.levels[0])
+
+describe('step', () => {
+  it('clears a level when the paddle keeps the ball in play', () => {
+    const state = newGame(12345)
+    const chase = (s: GameState, t: number): GameInput =>
+      ({ paddleX: s.balls[0] ? s.balls[0].x + Math.sin(t) * 7 : null, paddleVelocity: 0, launch: t % 50 === 0 })
+    const events = runUntil(state, chase, event => event.type === 'hole_entered' || event.type === 'board_cleared')
+
+    expect(events.some(event => event.type === 'level_bonus')).toBe(true)
+    expect(events.some(event => event.type === 'life_lost')).toBe(false)
+    expect(state.status).toBe('level_complete')
+    expect(state.score).toBeGreaterThan(0)
+  })
+
+  it('loses a life when the ball gets past the paddle', () => {
+    const state = newGame(7)
+    const lives = state.lives
+    // Launch, then always run to the far side from the ball
+    const dodge = (s: GameState, t: number): GameInput =>
+      ({ paddleX: (s.balls[0]?.x ?? 0) < s.width / 2 ? s.width - 20 : 20, paddleVelocity: 0, launch: t === 0 })
+    const events = runUntil(state, dodge, event => event.type === 'life_lost')
+
+    const lost = events.findIndex(event => event.type === 'ball_lost')
+    expect(lost).toBeGreaterThanOrEqual(0)
+    expect(events.slice(lost)).toContainEqual({ type: 'life_lost', lives: lives - 1 })
+    expect(state.lives).toBe(lives - 1)
+    expect(state.status).toBe('playing')
+  })
+})
@@ -0,0 +1,828 @@
+import { type Contact, type Rect, reflect, sweepCircleRect } from './collision'
+import { DIFFICULTY_PRESETS, type DifficultySettings, launchSpeed, paddleWidth } from './difficulty'
+import { ENDLESS_LEVEL, endlessBallSpeed, endlessLevel, rowInterval, sinkScore, unbreakableChance } from './endless'
+import { addShield, holeIsOpen, placeHole, pullBalls, updateHoles } from './holes'
+import { type GeneratorLevel, type GridLevel, type HoleSpec, type LevelDefinition, POWER_UP_TYPES } from './levels'
+import { activatePowerUp, ballSpeedFactor, controlsReversed, powerUpDefinition, updatePowerUps } from './powerUps'
+import { deriveSeed, nextRandom } from './rng'
+import { addScore, scoreBrick, scoreLevel } from './scoring'
+import type { Ball, Brick, BrickType, EndlessProgress, GameEvent, GameInput, GameState, Hole, Paddle } from './types'
+
+// --- Constants ---
+export const FRAME_MS = 1000 / 60 // Velocities are expressed per 60 Hz frame
+export const STEP_MS = 1000 / 120 // Fixed simulation step, whatever the display refresh rate
+export const MAX_FRAME_MS = 250 // Longest real frame we try to catch up on (e.g. after a background tab)
+export const BALL_RADIUS = 12 // What generated layouts leave room for; the balls themselves are sized by difficulty
+export const HOLE_RADIUS = 35
+const BONUS_HOLE_RADIUS = 22
+const BONUS_HOLE_SCORE = 100
+export const BRICK_SCORE = 10
+// Points for breaking each kind of brick; regenerating ones pay out every time
+export const BRICK_SCORES: Record<BrickType, number> = {
+  normal: BRICK_SCORE,
+  unbreakable: 0,
+  explosive: 15,
+  moving: 20,
+  regenerating: BRICK_SCORE,
+  portal: 0,
+}
+export const PORTAL_SCORE = 5 // Each trip through a portal
+const MOVING_SPEED = 1.2 // px per 60 Hz frame
+const MOVING_RANGE = 30 // How far either side of its spot a moving brick slides
+const CLEARED_RUSH = 5 // Endless: how much faster the board comes down while nothing breakable is left
+export const REGEN_MS = 8000
+
+export const BRICK_HEIGHT = 25
+export const BRICK_PADDING = 5
+export const BRICK_OFFSET_TOP = 120
+
+export const POWER_UP_SIZE = 30
+const MAX_CONTACTS = 8 // Contacts resolved per ball per step before we give up on the rest of the move
+const WALL = 1000 // Thickness of the off-screen wall rects
+
+export const NO_INPUT: GameInput = { paddleX: null, paddleVelocity: 0, launch: false }
+
+/** Unbreakable bricks and portals take hits but never break, and don't count towards clearing the board. */
+export const isBreakable = (brick: { type: BrickType }) => brick.type !== 'unbreakable' && brick.type !== 'portal'
+
+// Special bricks come in as the levels go on, unless the level says otherwise
+const defaultExplosiveChance = (difficulty: number) => difficulty >= 2 ? 0.06 : 0
+const defaultRegeneratingChance = (difficulty: number) => difficulty >= 3 ? 0.05 : 0
+
+// --- Setup ---
+
+/** How a run is set up beyond its board; both default off, on normal. */
+export interface RunOptions {
+  difficulty?: DifficultySettings
+  assist?: boolean
+}
+
+/** `players` paddles share the board (2 for local co-op). */
+export function createGame(width: number, height: number, seed: number, firstLevel: LevelDefinition, players = 1, options: RunOptions = {}): GameState {
+  const difficulty = options.difficulty ?? DIFFICULTY_PRESETS.normal
+  const state: GameState = {
+    width,
+    height,
+    level: 1,
+    score: 0,
+    lives: difficulty.lives,
+    status: 'playing',
+    balls: [],
+    paddles: [],
+    bricks: [],
+    powerUps: [],
+    holes: [],
+    decoys: [],
+    stats: { bricksBroken: 0, powerUpsCaught: 0, bestCombo: 0, playTime: 0 },
+    playerScores: Array(players).fill(0),
+    server: 0,
+    allowedPowerUps: POWER_UP_TYPES,
+    activePowerUps: [],
+    levelTime: 0,
+    levelPoints: 0,
+    difficulty,
+    assist: options.assist ?? false,
+    safetyNets: 0,
+    seed,
+    rngState: seed | 0,
+  }
+  loadLevel(state, 1, firstLevel)
+  return state
+}
+
+/** Starts an endless run over on `state` from its opening board (see endless.ts). Score and lives are the caller's. */
+export function startEndless(state: GameState) {
+  state.endless = { rows: 0, drop: 0 }
+  loadLevel(state, 1, ENDLESS_LEVEL)
+}
+
+export function resetBallAndPaddle(state: GameState) {
+  // Paddles start evenly spaced; the server's gets the ball
+  const players = state.playerScores.length
+  const slot = (i: number) => state.width * (i + 1) / (players + 1)
+  state.server %= players
+
+  state.balls = [{
+    x: slot(state.server),
+    y: state.height - 100,
+    dx: 0,
+    dy: 0,
+    radius: state.difficulty.ballRadius,
+    isAttached: true,
+    offsetX: 0,
+    owner: state.server
+  }]
+
+  state.paddles = state.playerScores.map((_, i) => ({
+    x: slot(i) - 50,
+    y: state.height - 60,
+    width: paddleWidth(state.level, state.difficulty),
+    height: 15,
+    isSticky: false
+  }))
+
+  state.powerUps = []
+  state.activePowerUps = [] // The paddles they were on are gone
+  state.decoys = []
+}
+
+export function loadLevel(state: GameState, level: number, definition: LevelDefinition) {
+  state.level = level
+  state.status = 'playing'
+  state.rngState = deriveSeed(state.seed, level)
+  state.allowedPowerUps = definition.powerUps ?? POWER_UP_TYPES
+  state.levelTime = 0
+  state.levelPoints = 0
+  state.safetyNets = state.assist ? 1 : 0
+  resetBallAndPaddle(state)
+
+  if (definition.kind === 'grid') buildGridLevel(state, definition)
+  else generateLevel(state, definition)
+}
+
+function generateLevel(state: GameState, definition: GeneratorLevel) {
+  const { width, level } = state
+  const difficulty = definition.difficulty ?? level
+  const unbreakable = definition.unbreakableChance ?? 0.05
+  const explosive = definition.explosiveChance ?? defaultExplosiveChance(difficulty)
+  const regenerating = definition.regeneratingChance ?? defaultRegeneratingChance(difficulty)
+  const movingRowCount = definition.movingRows ?? Math.max(0, difficulty - 2)
+  const portalPairs = definition.portalPairs ?? Math.max(0, difficulty - 3)
+  const holeDrift = definition.holeDrift ?? (difficulty >= 2 ? 0.5 + 0.1 * difficulty : 0)
+  const holePulse = definition.holePulse ?? (difficulty >= 3 ? 0.2 : 0)
+  const holeGravity = definition.holeGravity ?? (difficulty >= 4 ? 0.2 : 0)
+  const bonusHoles = definition.bonusHoles ?? (difficulty >= 4 ? 1 : 0)
+  const holeShield = definition.holeShield ?? (difficulty >= 5 ? 2 : 0)
+
+  const holeX = nextRandom(state) * (width - 100) + 50
+  const hole: Hole = { x: holeX, y: 60, radius: HOLE_RADIUS }
+  if (holeDrift > 0) {
+    // Wanders the whole width of the top, setting off either way
+    hole.path = [{ x: 50, y: 60 }, { x: width - 50, y: 60 }]
+    hole.target = nextRandom(state) < 0.5 ? 0 : 1
+    hole.speed = holeDrift
+  }
+  if (holePulse > 0) Object.assign(hole, { baseRadius: HOLE_RADIUS, pulse: holePulse })
+  if (holeGravity > 0) hole.gravity = holeGravity
+  state.holes = [hole]
+
+  const { brickWidth, brickColumnCount, startX, totalRowWidth } = generatorGeometry(width)
+  const brickRowCount = definition.rows ?? 6 + level
+  // Spread evenly down the board; whole rows slide together, so they never overlap
+  const movingRows = new Set(Array.from({ length: Math.min(movingRowCount, brickRowCount) }, (_, k) =>
+    Math.floor((k + 1) * brickRowCount / (movingRowCount + 1))))
+
+  const newBricks: Brick[] = []
+
+  // Bonus holes are buried among the bricks, each in a pocket a ball fits round
+  for (let k = 0; k < bonusHoles; k++) {
+    const row = 1 + Math.floor(nextRandom(state) * Math.max(1, brickRowCount - 2))
+    state.holes.push({
+      x: startX + nextRandom(state) * totalRowWidth,
+      y: BRICK_OFFSET_TOP + row * (BRICK_HEIGHT + BRICK_PADDING) + BRICK_HEIGHT / 2,
+      radius: BONUS_HOLE_RADIUS,
+      bonus: BONUS_HOLE_SCORE,
+    })
+  }
+  const pockets = state.holes.slice(1)
+
+  for (let c = 0; c < brickColumnCount; c++) {
+    for (let r = 0; r < brickRowCount; r++) {
+      const x = startX + (c * (brickWidth + BRICK_PADDING))
+      const y = (r * (BRICK_HEIGHT + BRICK_PADDING)) + BRICK_OFFSET_TOP
+
+      const distToHole = Math.sqrt(Math.pow(x - hole.x, 2) + Math.pow(y - hole.y, 2))
+      if (distToHole < 60) continue
+      const rect = { x, y, width: brickWidth, height: BRICK_HEIGHT }
+      if (pockets.some(pocket => distanceToRect(pocket.x, pocket.y, rect) < pocket.radius + 2 * BALL_RADIUS)) continue
+
+      // The top two rows are always breakable
+      let { type, health } = rollBrick(state, difficulty, r > 1 ? unbreakable : null, explosive, regenerating)
+
+      if (movingRows.has(r)) {
+        type = 'moving'
+        if (health === 999) health = 1
+      }
+
+      newBricks.push(makeBrick(x, y, brickWidth, type, health, r))
+    }
+  }
+
+  // Portal pairs join the left half of the board to the right
+  const candidates = (left: boolean) => newBricks.filter(b =>
+    b.type === 'normal' && b.y > BRICK_OFFSET_TOP && (b.x + b.width / 2 < width / 2) === left)
+  for (let p = 0; p < portalPairs; p++) {
+    const lefts = candidates(true)
+    const rights = candidates(false)
+    if (lefts.length === 0 || rights.length === 0) break
+    const a = lefts[Math.floor(nextRandom(state) * lefts.length)]
+    const b = rights[Math.floor(nextRandom(state) * rights.length)]
+    Object.assign(a, { type: 'portal', health: 999, maxHealth: 999, link: newBricks.indexOf(b) })
+    Object.assign(b, { type: 'portal', health: 999, maxHealth: 999, link: newBricks.indexOf(a) })
+  }
+
+  state.bricks = newBricks
+  if (holeShield > 0) addShield(state, 0, holeShield)
+}
+
+/** Brick size and layout for generated rows on a playfield `width` wide. */
+function generatorGeometry(width: number) {
+  const brickWidth = width < 500 ? 40 : 60
+  const brickColumnCount = Math.floor((width - 20) / (brickWidth + BRICK_PADDING))
+  const totalRowWidth = brickColumnCount * (brickWidth + BRICK_PADDING) - BRICK_PADDING
+  return { brickWidth, brickColumnCount, totalRowWidth, startX: (width - totalRowWidth) / 2 }
+}
+
+/** Rolls a generated brick's type and health; `difficulty` drives the health roll and a null `unbreakable` skips that roll. */
+function rollBrick(state: GameState, difficulty: number, unbreakable: number | null, explosive: number, regenerating: number): { type: BrickType; health: number } {
+  let type: BrickType = 'normal'
+  let health = 1
+
+  if (unbreakable !== null && nextRandom(state) < unbreakable) {
+    type = 'unbreakable'
+    health = 999
+  } else {
+    const rand = nextRandom(state)
+    if (difficulty > 2 && rand < 0.2) health = 3
+    else if (difficulty > 1 && rand < 0.4) health = 2
+    else if (difficulty > 3 && rand < 0.1) health = 4
+    else health = 1
+
+    if (explosive + regenerating > 0) {
+      const roll = nextRandom(state)
+      if (roll < explosive) type = 'explosive'
+      else if (roll < explosive + regenerating) type = 'regenerating'
+    }
+  }
+  return { type, health }
+}
+
+/** Builds a brick, setting up whatever its type needs. Rows slide in alternate directions. */
+function makeBrick(x: number, y: number, width: number, type: BrickType, health: number, row: number): Brick {
+  const brick: Brick = { x, y, width, height: BRICK_HEIGHT, status: 1, health, maxHealth: health, type }
+  if (type === 'moving') {
+    brick.originX = x
+    brick.vx = row % 2 === 0 ? MOVING_SPEED : -MOVING_SPEED
+  }
+  return brick
+}
+
+/** Pairs portals up in reading order; an odd one out just acts as an unbreakable brick. */
+function linkPortals(bricks: Brick[]) {
+  const portals = bricks.map((brick, i) => brick.type === 'portal' ? i : -1).filter(i => i !== -1)
+  for (let i = 0; i + 1 < portals.length; i += 2) {
+    bricks[portals[i]].link = portals[i + 1]
+    bricks[portals[i + 1]].link = portals[i]
+  }
+}
+
+/** Turns a hole from a level file into one on the board; `toPoint` converts grid units. */
+function holeFromSpec(spec: HoleSpec, toPoint: (cell: { column: number; row: number }) => { x: number; y: number }): Hole {
+  const { x, y } = toPoint(spec)
+  const radius = spec.radius ?? HOLE_RADIUS
+  const hole: Hole = { x, y, radius }
+  if (spec.path?.length) {
+    hole.path = [{ x, y }, ...spec.path.map(toPoint)]
+    if (spec.speed) hole.speed = spec.speed
+  }
+  if (spec.pulse) {
+    Object.assign(hole, { baseRadius: radius, pulse: spec.pulse })
+    if (spec.pulseMs) hole.pulseMs = spec.pulseMs
+  }
+  if (spec.gravity) hole.gravity = spec.gravity
+  if (spec.bonus) hole.bonus = spec.bonus
+  return hole
+}
+
+/** Lays a hand-made grid out centred on the current playfield. */
+function buildGridLevel(state: GameState, definition: GridLevel) {
+  const { width } = state
+  const geometry = gridGeometry(width, definition.bricks[0].length)
+
+  const holes = [definition.hole, ...(definition.extraHoles ?? [])]
+  const toPoint = ({ column, row }: { column: number; row: number }) => ({
+    x: Math.min(Math.max(geometry.startX + column * (geometry.brickWidth + BRICK_PADDING), 50), width - 50),
+    y: BRICK_OFFSET_TOP + row * (BRICK_HEIGHT + BRICK_PADDING),
+  })
+  state.holes = holes.map(spec => holeFromSpec(spec, toPoint))
+
+  const newBricks: Brick[] = []
+  definition.bricks.forEach((row, r) => {
+    row.forEach((cell, c) => {
+      if (!cell) return
+      const health = isBreakable(cell) ? cell.health ?? 1 : 999
+      newBricks.push(makeBrick(
+        geometry.startX + c * (geometry.brickWidth + BRICK_PADDING),
+        BRICK_OFFSET_TOP + r * (BRICK_HEIGHT + BRICK_PADDING),
+        geometry.brickWidth,
+        cell.type,
+        health,
+        r,
+      ))
+    })
+  })
+  state.bricks = newBricks
+  linkPortals(newBricks)
+  holes.forEach((spec, i) => {
+    if (spec.shield) addShield(state, i, spec.shield)
+  })
+}
+
+/** Brick size and left edge for a grid of `columns` on a playfield `width` wide. */
+export function gridGeometry(width: number, columns: number) {
+  const maxWidth = width < 500 ? 40 : 60
+  const brickWidth = Math.max(10, Math.min(maxWidth, Math.floor((width - 20) / columns) - BRICK_PADDING))
+  const totalRowWidth = columns * (brickWidth + BRICK_PADDING) - BRICK_PADDING
+  return { brickWidth, startX: (width - totalRowWidth) / 2 }
+}
+
+/** Keeps paddles and holes on screen after the playfield changes size. */
+export function resizeGame(state: GameState, width: number, height: number) {
+  state.width = width
+  state.height = height
+  state.paddles.forEach(paddle => {
+    if (paddle.x > width) paddle.x = width / 2 - paddle.width / 2
+  })
+  const clampX = (x: number) => Math.min(Math.max(x, 50), width - 50)
+  state.holes.forEach((hole, i) => {
+    hole.path?.forEach(point => point.x = clampX(point.x))
+    placeHole(state, i, clampX(hole.x), hole.y)
+  })
+}
+
+/**
+ * Stretches a state saved on one screen to fit another: everything is scaled
+ * horizontally and the paddle is kept the usual distance from the bottom.
+ */
+export function fitToPlayfield(state: GameState, width: number, height: number) {
+  const sx = width / state.width
+  if (sx !== 1) {
+    state.bricks.forEach(brick => {
+      brick.x *= sx
+      brick.width *= sx
+      if (brick.originX !== undefined) brick.originX *= sx
+    })
+    state.balls.forEach(ball => ball.x *= sx)
+    state.powerUps.forEach(p => p.x *= sx)
+    state.holes.forEach(hole => {
+      hole.x *= sx
+      hole.path?.forEach(point => point.x *= sx)
+    })
+    state.paddles.forEach(paddle => {
+      paddle.x *= sx
+      paddle.width *= sx
+    })
+  }
+
+  // All paddles share a row, so one offset moves them and their attached balls
+  const dy = (height - 60) - state.paddles[0].y
+  state.paddles.forEach(paddle => paddle.y += dy)
+  state.balls.forEach(ball => { if (ball.isAttached) ball.y += dy })
+  resizeGame(state, width, height)
+}
+
+// --- Actions ---
+
+/** Releases the balls held by `player`'s paddle. */
+export function launchBalls(state: GameState, player = 0) {
+  state.balls.forEach(ball => {
+    if (ball.isAttached && (ball.owner ?? 0) === player) {
+      ball.isAttached = false
+      ball.dy = -launchSpeed(state.level, state.difficulty)
+      ball.dx = (nextRandom(state) - 0.5) * 8
+    }
+  })
+}
+
+function spawnPowerUp(state: GameState, x: number, y: number) {
+  const allowed = state.allowedPowerUps.filter(type => (powerUpDefinition(type).minLevel ?? 1) <= state.level)
+  if (allowed.length === 0 || nextRandom(state) > state.difficulty.powerUpChance) return
+
+  const total = allowed.reduce((sum, type) => sum + powerUpDefinition(type).weight, 0)
+  let rand = nextRandom(state) * total
+  let type = allowed[allowed.length - 1]
+  for (const candidate of allowed) {
+    rand -= powerUpDefinition(candidate).weight
+    if (rand < 0) {
+      type = candidate
+      break
+    }
+  }
+
+  state.powerUps.push({
+    x,
+    y,
+    dy: 2.5,
+    type,
+    width: POWER_UP_SIZE,
+    height: POWER_UP_SIZE
+  })
+}
+
+// --- Collisions ---
+
+type Surface =
+  | { kind: 'wall'; rect: Rect }
+  | { kind: 'paddle'; rect: Paddle; player: number }
+  | { kind: 'brick'; rect: Brick }
+
+function hitBrick(state: GameState, ball: Ball, brick: Brick, contact: Contact, events: GameEvent[]) {
+  const breakable = isBreakable(brick)
+
+  // Penetrator balls plough through anything breakable
+  if (!(ball.isThrough && breakable)) {
+    ({ dx: ball.dx, dy: ball.dy } = reflect(ball.dx, ball.dy, contact.normalX, contact.normalY))
+  }
+
+  if (!breakable) {
+    events.push({ type: 'brick_hit', brick })
+    return
+  }
+  damageBrick(state, brick, ball.isThrough ? brick.health : 1, ball, events)
+}
+
+/** Takes `amount` health off a brick; at zero it breaks, and counts towards `ball`'s chain. */
+function damageBrick(state: GameState, brick: Brick, amount: number, ball: Ball, events: GameEvent[]) {
+  brick.health -= amount
+  if (brick.health > 0) {
+    events.push({ type: 'brick_hit', brick })
+    return
+  }
+
+  brick.status = 0
+  const { points, combo } = scoreBrick(state, ball, BRICK_SCORES[brick.type])
+  state.stats.bricksBroken += 1
+  events.push({ type: 'brick_destroyed', brick, player: ball.owner ?? 0, points, combo })
+  if (brick.type === 'regenerating') brick.regenTime = REGEN_MS
+  spawnPowerUp(state, brick.x + brick.width / 2, brick.y + brick.height / 2)
+  if (brick.type === 'explosive') explode(state, brick, ball, events)
+}
+
+/** Knocks a point off every breakable brick touching this one, chaining through other explosives. */
+function explode(state: GameState, brick: Brick, ball: Ball, events: GameEvent[]) {
+  events.push({ type: 'brick_exploded', brick })
+  const cx = brick.x + brick.width / 2
+  const cy = brick.y + brick.height / 2
+  state.bricks.forEach(other => {
+    if (other.status !== 1 || !isBreakable(other)) return
+    const nearX = Math.abs(other.x + other.width / 2 - cx) <= brick.width + BRICK_PADDING + 1
+    const nearY = Math.abs(other.y + other.height / 2 - cy) <= brick.height + BRICK_PADDING + 1
+    if (nearX && nearY) damageBrick(state, other, 1, ball, events)
+  })
+}
+
+/** Sends the ball out of the far side of `to`, still heading the same way. */
+function teleport(state: GameState, ball: Ball, from: Brick, to: Brick, events: GameEvent[]) {
+  const gap = ball.radius + 1
+  if (Math.abs(ball.dy) >= Math.abs(ball.dx)) {
+    ball.x = to.x + to.width / 2
+    ball.y = ball.dy > 0 ? to.y + to.height + gap : to.y - gap
+  } else {
+    ball.y = to.y + to.height / 2
+    ball.x = ball.dx > 0 ? to.x + to.width + gap : to.x - gap
+  }
+  // No interpolated streak across the board
+  ball.prevX = ball.x
+  ball.prevY = ball.y
+
+  addScore(state, ball.owner ?? 0, PORTAL_SCORE)
+  events.push({ type: 'portal_used', from, to, ball })
+}
+
+function hitPaddle(ball: Ball, paddle: Paddle, player: number, contact: Contact, events: GameEvent[]) {
+  // Only the top face steers the ball; the ends just bounce it away
+  if (contact.normalY >= 0 || Math.abs(contact.normalX) > Math.abs(contact.normalY)) {
+    ({ dx: ball.dx, dy: ball.dy } = reflect(ball.dx, ball.dy, contact.normalX, contact.normalY))
+    return
+  }
+
+  // Whoever returns the ball gets the credit for what it breaks next, starting a new chain
+  ball.owner = player
+  ball.combo = 0
+  events.push({ type: 'paddle_hit', ball, player })
+
+  if (paddle.isSticky) {
+    ball.isAttached = true
+    ball.offsetX = ball.x - (paddle.x + paddle.width / 2)
+    ball.dx = 0
+    ball.dy = 0
+  } else {
+    const hitPoint = ball.x - (paddle.x + paddle.width / 2)
+    const normalizedHit = Math.max(-1, Math.min(1, hitPoint / (paddle.width / 2)))
+    ball.dy = -Math.abs(ball.dy)
+    ball.dx = normalizedHit * 8
+    ball.dx *= 1.02
+    ball.dy *= 1.02
+  }
+}
+
+/**
+ * Moves a ball along its path for one step, stopping at each surface it
+ * touches in the order it touches them, so one step can bounce off a brick
+ * and then a wall without skipping either.
+ */
+function moveBall(state: GameState, ball: Ball, t: number, events: GameEvent[]) {
+  const { width, height, paddles, bricks } = state
+  const surfaces: Surface[] = [
+    { kind: 'wall', rect: { x: -WALL, y: -WALL, width: WALL, height: height + 2 * WALL } },
+    { kind: 'wall', rect: { x: width, y: -WALL, width: WALL, height: height + 2 * WALL } },
+    { kind: 'wall', rect: { x: -WALL, y: -WALL, width: width + 2 * WALL, height: WALL } },
+    ...paddles.map((paddle, player) => ({ kind: 'paddle' as const, rect: paddle, player })),
+  ]
+  const candidates = surfaces.concat(bricks.map(brick => ({ kind: 'brick' as const, rect: brick })))
+
+  let remaining = 1
+  for (let n = 0; n < MAX_CONTACTS && remaining > 0 && !ball.isAttached; n++) {
+    const moveX = ball.dx * t * remaining
+    const moveY = ball.dy * t * remaining
+
+    let hit: Contact | null = null
+    let target: Surface | null = null
+    for (const candidate of candidates) {
+      if (candidate.kind === 'brick' && candidate.rect.status !== 1) continue
+      const contact = sweepCircleRect(ball.x, ball.y, moveX, moveY, ball.radius, candidate.rect)
+      if (contact && (!hit || contact.time < hit.time)) {
+        hit = contact
+        target = candidate
+      }
+    }
+
+    if (!hit || !target) {
+      ball.x += moveX
+      ball.y += moveY
+      return
+    }
+
+    ball.x += moveX * hit.time + hit.normalX * hit.depth
+    ball.y += moveY * hit.time + hit.normalY * hit.depth
+    remaining *= 1 - hit.time
+
+    switch (target.kind) {
+      case 'brick': {
+        const partner = target.rect.link !== undefined ? bricks[target.rect.link] : undefined
+        if (partner) {
+          teleport(state, ball, target.rect, partner, events)
+          return
+        }
+        hitBrick(state, ball, target.rect, hit, events)
+        break
+      }
+      case 'paddle':
+        hitPaddle(ball, target.rect, target.player, hit, events)
+        break
+      case 'wall':
+        ({ dx: ball.dx, dy: ball.dy } = reflect(ball.dx, ball.dy, hit.normalX, hit.normalY))
+        break
+    }
+  }
+}
+
+// --- Simulation ---
+
+function distanceToRect(x: number, y: number, rect: Rect) {
+  const nearestX = Math.min(Math.max(x, rect.x), rect.x + rect.width)
+  const nearestY = Math.min(Math.max(y, rect.y), rect.y + rect.height)
+  return Math.hypot(x - nearestX, y - nearestY)
+}
+
+const ballTouches = (ball: Ball, rect: Rect) => distanceToRect(ball.x, ball.y, rect) < ball.radius
+
+/** Slides moving bricks and brings broken regenerating ones back. */
+function updateBricks(state: GameState, t: number, dt: number, events: GameEvent[]) {
+  state.bricks.forEach(brick => {
+    if (brick.type === 'moving' && brick.status === 1 && brick.vx && brick.originX !== undefined) {
+      brick.prevX = brick.x
+      brick.x += brick.vx * t
+      const offset = brick.x - brick.originX
+      if (Math.abs(offset) > MOVING_RANGE) {
+        brick.x = brick.originX + Math.sign(offset) * MOVING_RANGE
+        brick.vx = -brick.vx
+      }
+    }
+
+    if (brick.type === 'regenerating' && brick.status === 0 && brick.regenTime !== undefined) {
+      brick.regenTime -= dt
+      // Waits for any ball in the way to move off first
+      if (brick.regenTime <= 0 && !state.balls.some(ball => ballTouches(ball, brick))) {
+        brick.status = 1
+        brick.health = brick.maxHealth
+        delete brick.regenTime
+        events.push({ type: 'brick_regenerated', brick })
+      }
+    }
+  })
+}
+
+/** Endless: pushes a new generated row in at the top of the board, leaving gaps where balls are. */
+function pushRow(state: GameState, endless: EndlessProgress, events: GameEvent[]) {
+  endless.rows += 1
+  state.level = endlessLevel(endless.rows)
+  const { brickWidth, brickColumnCount, startX } = generatorGeometry(state.width)
+  const y = BRICK_OFFSET_TOP + endless.drop
+  for (let c = 0; c < brickColumnCount; c++) {
+    const x = startX + c * (brickWidth + BRICK_PADDING)
+    if (state.balls.some(ball => ballTouches(ball, { x, y, width: brickWidth, height: BRICK_HEIGHT }))) continue
+    const { type, health } = rollBrick(state, state.level, unbreakableChance(endless.rows),
+      defaultExplosiveChance(state.level), defaultRegeneratingChance(state.level))
+    state.bricks.push(makeBrick(x, y, brickWidth, type, health, 0))
+  }
+  events.push({ type: 'row_added', rows: endless.rows })
+}
+
+/**
+ * Endless: brings the board down by one step and pushes in a row whenever
+ * there's room. Unbreakable bricks crumble at the paddles' line; anything
+ * breakable getting there ends the run.
+ */
+function updateEndless(state: GameState, endless: EndlessProgress, dt: number, events: GameEvent[]) {
+  const rowHeight = BRICK_HEIGHT + BRICK_PADDING
+  const cleared = !state.bricks.some(b => b.status === 1 && isBreakable(b))
+  const fall = rowHeight * dt / rowInterval(endless.rows) * (cleared ? CLEARED_RUSH : 1)
+  state.bricks.forEach(brick => {
+    brick.prevY = brick.y
+    brick.y += fall
+  })
+  endless.drop += fall
+  if (endless.drop >= rowHeight) {
+    endless.drop -= rowHeight
+    pushRow(state, endless, events)
+  }
+
+  const line = state.paddles[0].y
+  const landed = (brick: Brick) => brick.y + brick.height >= line
+  if (state.bricks.some(brick => brick.status === 1 && isBreakable(brick) && landed(brick))) {
+    state.status = 'gameover'
+    events.push({ type: 'bricks_landed' }, { type: 'game_over' })
+    return
+  }
+  // Broken bricks that won't come back are gone for good; nothing else points into `bricks` here
+  for (let i = state.bricks.length - 1; i >= 0; i--) {
+    const brick = state.bricks[i]
+    if (landed(brick) || (brick.status === 0 && brick.type !== 'regenerating')) state.bricks.splice(i, 1)
+  }
+}
+
+/** Endless: the hole pays out and the ball goes back to its paddle to be served again somewhere else. */
+function sinkBall(state: GameState, ball: Ball, index: number, events: GameEvent[]) {
+  const player = ball.owner ?? 0
+  const points = sinkScore(state.level)
+  addScore(state, player, points)
+
+  const paddle = state.paddles[player]
+  Object.assign(ball, { isAttached: true, offsetX: 0, dx: 0, dy: 0, combo: 0 })
+  ball.x = ball.prevX = paddle.x + paddle.width / 2
+  ball.y = ball.prevY = paddle.y - ball.radius
+
+  const hole = state.holes[index]
+  events.push({ type: 'ball_sunk', ball, hole: { ...hole }, points, player })
+  placeHole(state, index, nextRandom(state) * (state.width - 100) + 50, hole.y)
+  hole.prevX = hole.x
+}
+
+/**
+ * Advances the simulation by `dt` milliseconds, mutating `state` in place.
+ * `inputs[i]` drives `paddles[i]`; missing entries count as no input.
+ * Returns what happened during the step so callers can play sounds,
+ * spawn particles or update the HUD without the engine knowing about them.
+ */
+export function step(state: GameState, inputs: GameInput[], dt: number): GameEvent[] {
+  const events: GameEvent[] = []
+  if (state.status !== 'playing') return events
+
+  const t = dt / FRAME_MS
+  const { paddles, bricks, powerUps } = state
+  state.levelTime += dt
+  state.stats.playTime += dt
+
+  paddles.forEach(paddle => paddle.prevX = paddle.x)
+  state.balls.forEach(ball => {
+    ball.prevX = ball.x
+    ball.prevY = ball.y
+  })
+  powerUps.forEach(p => p.prevY = p.y)
+
+  paddles.forEach((paddle, player) => {
+    const input = inputs[player] ?? NO_INPUT
+    // Reversed controls mirror where the player points and which way they steer
+    const reversed = controlsReversed(state, player)
+    const paddleX = reversed && input.paddleX !== null ? state.width - input.paddleX : input.paddleX
+    const paddleVelocity = reversed ? -input.paddleVelocity : input.paddleVelocity
+    if (paddleX !== null) paddle.x = paddleX - paddle.width / 2
+    if (paddleVelocity !== 0) {
+      const center = paddle.x + paddle.width / 2 + paddleVelocity * t
+      paddle.x = Math.min(Math.max(center, 0), state.width) - paddle.width / 2
+    }
+    if (input.launch) launchBalls(state, player)
+  })
+
+  updatePowerUps(state, dt, events)
+
+  // PowerUps
+  for (let i = powerUps.length - 1; i >= 0; i--) {
+    const p = powerUps[i]
+    p.y += p.dy * t
+
+    const catcher = paddles.findIndex(paddle =>
+      p.y + p.height / 2 >= paddle.y &&
+      p.y - p.height / 2 <= paddle.y + paddle.height &&
+      p.x >= paddle.x &&
+      p.x <= paddle.x + paddle.width
+    )
+    if (catcher !== -1) {
+      addScore(state, catcher, powerUpDefinition(p.type).score ?? 0)
+      activatePowerUp(state, p.type, catcher)
+      state.stats.powerUpsCaught += 1
+      events.push({ type: 'powerup_caught', powerUp: p.type, player: catcher })
+      powerUps.splice(i, 1)
+      continue
+    }
+    if (p.y > state.height) powerUps.splice(i, 1)
+  }
+
+  updateBricks(state, t, dt, events)
+  if (state.endless) {
+    updateEndless(state, state.endless, dt, events)
+    if (state.status !== 'playing') return events
+  }
+  updateHoles(state, t, dt)
+  pullBalls(state, t)
+
+  // Balls
+  const ballT = t * ballSpeedFactor(state) * (state.endless ? endlessBallSpeed(state.endless.rows) : 1)
+  for (let i = state.balls.length - 1; i >= 0; i--) {
+    const ball = state.balls[i]
+
+    if (ball.isAttached) {
+      const paddle = paddles[ball.owner ?? 0]
+      ball.x = paddle.x + paddle.width / 2 + (ball.offsetX || 0)
+      ball.y = paddle.y - ball.radius
+      continue
+    }
+
+    // Power-ups and the endless ramp can't push a ball past the difficulty's top speed
+    const speed = Math.hypot(ball.dx, ball.dy) * (ballT / t)
+    moveBall(state, ball, speed > state.difficulty.maxBallSpeed ? ballT * state.difficulty.maxBallSpeed / speed : ballT, events)
+
+    const enteredIndex = state.holes.findIndex((hole, index) =>
+      Math.hypot(ball.x - hole.x, ball.y - hole.y) < hole.radius + ball.radius && holeIsOpen(state, index))
+    if (enteredIndex !== -1 && state.endless) {
+      sinkBall(state, ball, enteredIndex, events)
+      continue
+    }
+    if (enteredIndex !== -1) {
+      const entered = state.holes[enteredIndex]
+      const player = ball.owner ?? 0
+      const standing = bricks.filter(b => b.status === 1 && isBreakable(b)).length
+      state.status = 'level_complete'
+      events.push(
+        { type: 'level_bonus', bonus: scoreLevel(state, player, standing, entered), player },
+        { type: 'hole_entered', ball, hole: entered },
+      )
+      return events
+    }
+
+    // A fake hole swallows the ball
+    if (state.decoys.some(decoy => Math.hypot(ball.x - decoy.x, ball.y - decoy.y) < decoy.radius + ball.radius)) {
+      state.balls.splice(i, 1)
+      events.push({ type: 'decoy_entered', ball }, { type: 'ball_lost', ball })
+      continue
+    }
+
+    // The safety net only catches a ball that would cost a life
+    if (ball.y + ball.radius > state.height && state.safetyNets > 0 && state.balls.length === 1) {
+      state.safetyNets -= 1
+      ball.y = state.height - ball.radius
+      ball.dy = -Math.abs(ball.dy)
+      events.push({ type: 'ball_saved', ball })
+    }
+
+    if (ball.y - ball.radius > state.height) {
+      state.balls.splice(i, 1)
+      events.push({ type: 'ball_lost', ball })
+    }
+  }
+
+  if (state.balls.length === 0) {
+    if (state.lives > 1) {
+      state.lives -= 1
+      events.push({ type: 'life_lost', lives: state.lives })
+      state.server += 1 // Players take turns to serve
+      resetBallAndPaddle(state)
+    } else {
+      state.lives = 0
+      state.status = 'gameover'
+      events.push({ type: 'game_over' })
+    }
+    return events
+  }
+
+  // Endless runs never clear: the board just comes down faster until the next row
+  if (!state.endless && bricks.filter(b => b.status === 1 && isBreakable(b)).length === 0) {
+    // The bonus goes to whoever's ball is still in play, the first if there are several
+    const player = state.balls[0].owner ?? 0
+    state.status = 'level_complete'
+    events.push({ type: 'level_bonus', bonus: scoreLevel(state, player, 0), player }, { type: 'board_cleared' })
+  }
+
+  return events
+}
@@ -0,0 +1,120 @@
+import type { Brick, GameState, Hole } from './types'
+
+/**
+ * Hole behaviours. A level can give any hole a path to drift along, a pulse,
+ * a gravity well, shield bricks that keep it shut, or a bonus for going in.
+ * They all live on the hole itself (see Hole), so they save, replay and
+ * sync with the rest of the state.
+ */
+
+// --- Constants ---
+export const DRIFT_SPEED = 1 // px per 60 Hz frame
+export const PULSE_MS = 3000
+export const PULL_RANGE = 4 // Gravity reaches this many radii from the centre
+const SHIELD_GAP = 6 // Between the hole at its widest and its shield
+const SHIELD_THICKNESS = 12
+
+// --- Queries ---
+
+/** A hole takes the ball once every brick guarding it is broken. */
+export const holeIsOpen = (state: GameState, index: number) =>
+  !state.bricks.some(brick => brick.guards === index && brick.status === 1)
+
+/** Its largest radius while pulsing, its radius otherwise. */
+export const holeReach = (hole: Hole) => (hole.baseRadius ?? hole.radius) * (1 + (hole.pulse ?? 0))
+
+// --- Setup ---
+
+/** Boxes a hole in with four shield bricks of `health`. They're appended, so other bricks keep their indices. */
+export function addShield(state: GameState, index: number, health: number) {
+  const hole = state.holes[index]
+  const reach = holeReach(hole) + SHIELD_GAP
+  const outer = 2 * (reach + SHIELD_THICKNESS)
+  const sides = [
+    { x: hole.x - reach - SHIELD_THICKNESS, y: hole.y - reach - SHIELD_THICKNESS, width: outer, height: SHIELD_THICKNESS },
+    { x: hole.x - reach - SHIELD_THICKNESS, y: hole.y + reach, width: outer, height: SHIELD_THICKNESS },
+    { x: hole.x - reach - SHIELD_THICKNESS, y: hole.y - reach, width: SHIELD_THICKNESS, height: 2 * reach },
+    { x: hole.x + reach, y: hole.y - reach, width: SHIELD_THICKNESS, height: 2 * reach },
+  ]
+  sides.forEach(side => {
+    const brick: Brick = { ...side, status: 1, health, maxHealth: health, type: 'normal', guards: index }
+    state.bricks.push(brick)
+  })
+}
+
+// --- Simulation ---
+
+/** Moves a hole and its shield together. */
+export function placeHole(state: GameState, index: number, x: number, y: number) {
+  const hole = state.holes[index]
+  const dx = x - hole.x
+  const dy = y - hole.y
+  hole.x = x
+  hole.y = y
+  if (dx === 0 && dy === 0) return
+  state.bricks.forEach(brick => {
+    if (brick.guards !== index) return
+    brick.x += dx
+    brick.y += dy
+  })
+}
+
+/** Drifts and pulses every hole by one step. */
+export function updateHoles(state: GameState, t: number, dt: number) {
+  state.holes.forEach((hole, index) => {
+    hole.prevX = hole.x
+    hole.prevY = hole.y
+
+    if (hole.pulse && hole.baseRadius) {
+      hole.age = (hole.age ?? 0) + dt
+      hole.radius = hole.baseRadius * (1 + hole.pulse * Math.sin(2 * Math.PI * hole.age / (hole.pulseMs ?? PULSE_MS)))
+    }
+
+    const { path } = hole
+    if (!path || path.length < 2) return
+    state.bricks.forEach(brick => {
+      if (brick.guards !== index) return
+      brick.prevX = brick.x
+      brick.prevY = brick.y
+    })
+    const next = (hole.target ?? 1) % path.length
+    const goal = path[next]
+    const distance = Math.hypot(goal.x - hole.x, goal.y - hole.y)
+    const travel = (hole.speed ?? DRIFT_SPEED) * t
+    if (distance <= travel) {
+      placeHole(state, index, goal.x, goal.y)
+      hole.target = (next + 1) % path.length
+    } else {
+      placeHole(state, index, hole.x + (goal.x - hole.x) / distance * travel, hole.y + (goal.y - hole.y) / distance * travel)
+    }
+  })
+}
+
+/**
+ * Bends free balls towards open holes with gravity. Only their direction
+ * changes: a ball leaves the well as fast as it went in.
+ */
+export function pullBalls(state: GameState, t: number) {
+  state.holes.forEach((hole, index) => {
+    const { gravity } = hole
+    if (!gravity || !holeIsOpen(state, index)) return
+    const range = hole.radius * PULL_RANGE
+    state.balls.forEach(ball => {
+      if (ball.isAttached) return
+      const dx = hole.x - ball.x
+      const dy = hole.y - ball.y
+      const distance = Math.hypot(dx, dy)
+      if (distance === 0 || distance >= range) return
+
+      const speed = Math.hypot(ball.dx, ball.dy)
+      const pull = gravity * (1 - distance / range) * t
+      ball.dx += pull * dx / distance
+      ball.dy += pull * dy / distance
+      const bent = Math.hypot(ball.dx, ball.dy)
+      if (bent > 0) {
+        ball.dx *= speed / bent
+        ball.dy *= speed / bent
+      }
+    })
+  })
+}
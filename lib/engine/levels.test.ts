@@ -0,0 +1,29 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { dailyPack } from '@/lib/daily'
+import { LEVEL_FORMAT_VERSION, LevelPackError, parseLevelPack } from './levels'
+
+const hole = { column: 1, row: 4 }
+const packWith = (bricks: unknown[][]) => ({ version: LEVEL_FORMAT_VERSION, name: 'Test', levels: [{ kind: 'grid', bricks, hole }] })
+
+describe('parseLevelPack', () => {
+  it.each(['classic', 'curated'])('accepts the bundled %s pack', name => {
+    const json = JSON.parse(readFileSync(`public/levels/${name}.json`, 'utf8'))
+    expect(() => parseLevelPack(json, name)).not.toThrow()
+  })
+
+  it('accepts the frozen boards of a daily', () => {
+    expect(() => parseLevelPack(dailyPack('2026-10-19'), 'daily')).not.toThrow()
+  })
+
+  it('rejects grids with no columns', () => {
+    expect(() => parseLevelPack(packWith([[], []]))).toThrow(/bricks\[0\]: expected at least one cell/)
+  })
+
+  it('rejects grids that can never be cleared', () => {
+    const solid = { type: 'unbreakable' }
+    const portal = { type: 'portal' }
+    expect(() => parseLevelPack(packWith([[null, null], [null, null]]))).toThrow(LevelPackError)
+    expect(() => parseLevelPack(packWith([[solid, portal], [portal, null]]))).toThrow(/at least one breakable brick/)
+  })
+})
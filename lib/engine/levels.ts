@@ -0,0 +1,266 @@
+import { POWER_UPS, type PowerUpType } from './powerUps'
+import type { BrickType } from './types'
+
+/**
+ * Level schema. Packs are plain JSON (see public/levels/) so boards can be
+ * designed without touching code. Bump LEVEL_FORMAT_VERSION on breaking
+ * changes and keep reading the old versions where we can.
+ */
+export const LEVEL_FORMAT_VERSION = 1
+
+export const BRICK_TYPES: BrickType[] = ['normal', 'unbreakable', 'explosive', 'moving', 'regenerating', 'portal']
+export const POWER_UP_TYPES = Object.keys(POWER_UPS) as PowerUpType[]
+
+// --- Types ---
+export interface BrickCell {
+  type: BrickType
+  health?: number // Defaults to 1; ignored for unbreakable bricks and portals
+}
+
+/**
+ * Hole position in grid units: column 0 is the left edge of the first brick
+ * column, row 0 the top edge of the first row. Negative rows sit above the bricks.
+ * The rest are optional behaviours (see holes.ts).
+ */
+export interface HoleSpec {
+  column: number
+  row: number
+  radius?: number
+  path?: { column: number; row: number }[] // Drifts through these in turn, then back to where it started
+  speed?: number // px per 60 Hz frame along the path, defaults to 1
+  pulse?: number // The radius swings this share either way (0.3 is ±30%)
+  pulseMs?: number // One full swing, defaults to 3000
+  gravity?: number // Bends balls passing near it; 0.2 is a gentle pull
+  shield?: number // Health of the shield bricks boxed around it; it stays shut until they're all broken
+  bonus?: number // Points for going in this one
+}
+
+export interface GridLevel {
+  kind: 'grid'
+  name?: string
+  bricks: (BrickCell | null)[][] // Rows top to bottom, null leaves a gap. Portals pair up in reading order
+  hole: HoleSpec
+  extraHoles?: HoleSpec[] // More ways out, usually with a bonus
+  powerUps?: PowerUpType[] // Which power-ups can drop, all of them when omitted
+}
+
+/** The original random boards, kept as one level type among others. */
+export interface GeneratorLevel {
+  kind: 'generator'
+  name?: string
+  rows?: number // Defaults to 6 + level number
+  unbreakableChance?: number // Per brick below the second row, defaults to 0.05
+  difficulty?: number // Drives the health roll, defaults to the level number
+  // Special bricks; the defaults bring them in as difficulty rises
+  explosiveChance?: number // Per brick, from difficulty 2
+  regeneratingChance?: number // Per brick, from difficulty 3
+  movingRows?: number // Rows that slide, one per difficulty above 2
+  portalPairs?: number // One per difficulty above 3
+  // The hole livens up the same way
+  holeDrift?: number // Speed it wanders along the top at, from difficulty 2
+  holePulse?: number // From difficulty 3
+  holeGravity?: number // From difficulty 4
+  bonusHoles?: number // Small holes buried in the bricks, worth a bonus; one from difficulty 4
+  holeShield?: number // Shield brick health, from difficulty 5
+  powerUps?: PowerUpType[]
+}
+
+export type LevelDefinition = GridLevel | GeneratorLevel
+
+export interface LevelPack {
+  version: number
+  name: string
+  levels: LevelDefinition[]
+}
+
+/** Used until a pack is fetched, and whenever fetching one fails. */
+export const DEFAULT_LEVEL_PACK: LevelPack = {
+  version: LEVEL_FORMAT_VERSION,
+  name: 'Classic',
+  levels: [1, 2, 3, 4, 5].map(() => ({ kind: 'generator' as const })),
+}
+
+// --- Validation ---
+
+export class LevelPackError extends Error {
+  issues: string[]
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid level pack ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`)
+    this.name = 'LevelPackError'
+    this.issues = issues
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isPositiveInt = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0
+
+function checkPowerUps(value: unknown, path: string, issues: string[]) {
+  if (value === undefined) return
+  if (!Array.isArray(value)) {
+    issues.push(`${path}: expected an array of power-up names`)
+    return
+  }
+  value.forEach((type, i) => {
+    if (!POWER_UP_TYPES.includes(type)) {
+      issues.push(`${path}[${i}]: unknown power-up "${type}" (expected one of ${POWER_UP_TYPES.join(', ')})`)
+    }
+  })
+}
+
+function checkBrickCell(cell: unknown, path: string, issues: string[]) {
+  if (cell === null) return
+  if (!isObject(cell)) {
+    issues.push(`${path}: expected a brick object or null`)
+    return
+  }
+  if (!BRICK_TYPES.includes(cell.type as BrickType)) {
+    issues.push(`${path}.type: unknown brick type "${cell.type}" (expected one of ${BRICK_TYPES.join(', ')})`)
+  }
+  if (cell.health !== undefined && !isPositiveInt(cell.health)) {
+    issues.push(`${path}.health: expected a positive integer, got ${JSON.stringify(cell.health)}`)
+  }
+}
+
+const isNonNegative = (value: unknown): value is number => typeof value === 'number' && value >= 0
+
+function checkHole(hole: unknown, path: string, issues: string[]) {
+  if (!isObject(hole)) {
+    issues.push(`${path}: expected { column, row, radius? }`)
+    return
+  }
+  if (typeof hole.column !== 'number') issues.push(`${path}.column: expected a number`)
+  if (typeof hole.row !== 'number') issues.push(`${path}.row: expected a number`)
+  if (hole.radius !== undefined && !(typeof hole.radius === 'number' && hole.radius > 0)) {
+    issues.push(`${path}.radius: expected a positive number`)
+  }
+  if (hole.path !== undefined) {
+    if (!Array.isArray(hole.path)) issues.push(`${path}.path: expected an array of { column, row }`)
+    else hole.path.forEach((point, i) => {
+      if (!isObject(point) || typeof point.column !== 'number' || typeof point.row !== 'number') {
+        issues.push(`${path}.path[${i}]: expected { column, row }`)
+      }
+    })
+  }
+  for (const key of ['speed', 'pulseMs']) {
+    if (hole[key] !== undefined && !(typeof hole[key] === 'number' && hole[key] > 0)) {
+      issues.push(`${path}.${key}: expected a positive number`)
+    }
+  }
+  if (hole.pulse !== undefined && !(typeof hole.pulse === 'number' && hole.pulse >= 0 && hole.pulse < 1)) {
+    issues.push(`${path}.pulse: expected a number from 0 up to (not including) 1`)
+  }
+  for (const key of ['gravity', 'bonus']) {
+    if (hole[key] !== undefined && !isNonNegative(hole[key])) issues.push(`${path}.${key}: expected a number, 0 or more`)
+  }
+  if (hole.shield !== undefined && !isPositiveInt(hole.shield)) {
+    issues.push(`${path}.shield: expected a positive integer`)
+  }
+}
+
+function checkGridLevel(level: Record<string, unknown>, path: string, issues: string[]) {
+  const { bricks, hole, extraHoles } = level
+  if (!Array.isArray(bricks) || bricks.length === 0) {
+    issues.push(`${path}.bricks: expected a non-empty array of rows`)
+  } else {
+    const columns = Array.isArray(bricks[0]) ? bricks[0].length : 0
+    if (columns === 0) issues.push(`${path}.bricks[0]: expected at least one cell`)
+    bricks.forEach((row, r) => {
+      if (!Array.isArray(row)) {
+        issues.push(`${path}.bricks[${r}]: expected an array of cells`)
+        return
+      }
+      if (row.length !== columns) {
+        issues.push(`${path}.bricks[${r}]: has ${row.length} cells, row 0 has ${columns}`)
+      }
+      row.forEach((cell, c) => checkBrickCell(cell, `${path}.bricks[${r}][${c}]`, issues))
+    })
+    // Otherwise the level can never be cleared
+    const breakable = bricks.some(row => Array.isArray(row) && row.some(cell =>
+      isObject(cell) && BRICK_TYPES.includes(cell.type as BrickType) && cell.type !== 'unbreakable' && cell.type !== 'portal'))
+    if (!breakable) issues.push(`${path}.bricks: expected at least one breakable brick`)
+  }
+
+  checkHole(hole, `${path}.hole`, issues)
+  if (extraHoles !== undefined) {
+    if (!Array.isArray(extraHoles)) issues.push(`${path}.extraHoles: expected an array of holes`)
+    else extraHoles.forEach((extra, i) => checkHole(extra, `${path}.extraHoles[${i}]`, issues))
+  }
+}
+
+function checkGeneratorLevel(level: Record<string, unknown>, path: string, issues: string[]) {
+  if (level.rows !== undefined && !isPositiveInt(level.rows)) {
+    issues.push(`${path}.rows: expected a positive integer`)
+  }
+  for (const key of ['unbreakableChance', 'explosiveChance', 'regeneratingChance']) {
+    const chance = level[key]
+    if (chance !== undefined && !(typeof chance === 'number' && chance >= 0 && chance <= 1)) {
+      issues.push(`${path}.${key}: expected a number between 0 and 1`)
+    }
+  }
+  for (const key of ['holeDrift', 'holePulse', 'holeGravity']) {
+    if (level[key] !== undefined && !isNonNegative(level[key])) issues.push(`${path}.${key}: expected a number, 0 or more`)
+  }
+  if (typeof level.holePulse === 'number' && level.holePulse >= 1) {
+    issues.push(`${path}.holePulse: expected less than 1`)
+  }
+  for (const key of ['movingRows', 'portalPairs', 'bonusHoles', 'holeShield']) {
+    const count = level[key]
+    if (count !== undefined && !(typeof count === 'number' && Number.isInteger(count) && count >= 0)) {
+      issues.push(`${path}.${key}: expected a whole number, 0 or more`)
+    }
+  }
+  if (level.difficulty !== undefined && !isPositiveInt(level.difficulty)) {
+    issues.push(`${path}.difficulty: expected a positive integer`)
+  }
+}
+
+/**
+ * Checks untrusted JSON against the level schema. Reports every problem at
+ * once, with a path to each, rather than stopping at the first.
+ */
+export function parseLevelPack(json: unknown, source = 'pack'): LevelPack {
+  const issues: string[] = []
+
+  if (!isObject(json)) throw new LevelPackError(source, ['expected a JSON object at the top level'])
+
+  if (json.version !== LEVEL_FORMAT_VERSION) {
+    issues.push(`version: unsupported version ${JSON.stringify(json.version)} (this build reads version ${LEVEL_FORMAT_VERSION})`)
+  }
+  if (typeof json.name !== 'string' || !json.name.trim()) {
+    issues.push('name: expected a non-empty string')
+  }
+
+  if (!Array.isArray(json.levels) || json.levels.length === 0) {
+    issues.push('levels: expected a non-empty array')
+  } else {
+    json.levels.forEach((level, i) => {
+      const path = `levels[${i}]`
+      if (!isObject(level)) {
+        issues.push(`${path}: expected a level object`)
+        return
+      }
+      if (level.name !== undefined && typeof level.name !== 'string') {
+        issues.push(`${path}.name: expected a string`)
+      }
+      checkPowerUps(level.powerUps, `${path}.powerUps`, issues)
+
+      switch (level.kind) {
+        case 'grid':
+          checkGridLevel(level, path, issues)
+          break
+        case 'generator':
+          checkGeneratorLevel(level, path, issues)
+          break
+        default:
+          issues.push(`${path}.kind: expected "grid" or "generator", got ${JSON.stringify(level.kind)}`)
+      }
+    })
+  }
+
+  if (issues.length > 0) throw new LevelPackError(source, issues)
+  return json as unknown as LevelPack
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { createGame } from './game'
+import { DEFAULT_LEVEL_PACK } from './levels'
+import { activatePowerUp, updatePowerUps } from './powerUps'
+import type { GameEvent } from './types'
+
+describe('penetrator', () => {
+  it('covers balls added while it runs, and ends on all of them', () => {
+    const state = createGame(800, 600, 42, DEFAULT_LEVEL_PACK.levels[0])
+    activatePowerUp(state, 'penetrator', 0)
+    activatePowerUp(state, 'jizztime', 0)
+    expect(state.balls).toHaveLength(3)
+    expect(state.balls.every(ball => ball.isThrough)).toBe(true)
+
+    const events: GameEvent[] = []
+    updatePowerUps(state, 10000, events)
+    expect(events).toContainEqual({ type: 'powerup_expired', powerUp: 'penetrator', player: 0 })
+    expect(state.balls.some(ball => ball.isThrough)).toBe(false)
+
+    activatePowerUp(state, 'blue_balls', 0)
+    expect(state.balls[3].isThrough).toBe(false)
+  })
+})
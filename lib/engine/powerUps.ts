@@ -0,0 +1,254 @@
+import { paddleWidth } from './difficulty'
+import { nextRandom } from './rng'
+import type { Ball, GameEvent, GameState, Hole } from './types'
+
+/**
+ * Power-up registry. Each entry says how often it drops, how it looks, what
+ * it does and for how long; the engine only ever goes through this table, so
+ * a new power-up is a new entry here and nothing else. Keep the order stable:
+ * drops are picked by walking it, so reordering changes every seed's drops.
+ */
+
+// --- Types ---
+
+/**
+ * What catching a power-up that's already running does:
+ * - refresh: the timer starts over
+ * - extend: another full duration is added to what's left
+ * - stack: one more stack (up to maxStacks), and the timer starts over
+ */
+export type Stacking = 'refresh' | 'extend' | 'stack'
+
+export interface PowerUpDefinition {
+  label: string // Pop-up text and HUD name
+  badge: string // Short text on the falling capsule and the HUD ring
+  color: string
+  weight: number // Relative drop chance
+  minLevel?: number // Doesn't drop before this level
+  harmful?: boolean // Drawn as a hazard; usually worth catching only for its points
+  score?: number // Points for catching it
+  target: 'paddle' | 'board' // The catcher's paddle only, or the whole board
+  duration?: number // ms; power-ups without one are instant
+  stacking?: Stacking // Defaults to refresh
+  maxStacks?: number
+  // While running, these change how the engine treats balls and paddles
+  ballSpeed?: number // Multiplies every ball's speed
+  reverseControls?: boolean // Mirrors the target paddle's input
+  /** Runs on every catch, with the stack count after this catch. */
+  apply: (state: GameState, player: number, stacks: number) => void
+  /** Runs once the timer has run out and it's gone from the list. Resets (a lost life, a new level) skip it. */
+  expire?: (state: GameState, player: number) => void
+}
+
+// --- Helpers ---
+
+const MAX_PADDLE_SHARE = 0.4 // Of the board's width
+const GIRTHY_GROWTH = 1.5 // Per stack
+const SHRINK_FACTOR = 0.6
+
+const runningOn = (state: GameState, type: PowerUpType, player: number) =>
+  state.activePowerUps.find(a => a.type === type && a.player === player)
+
+/** Sizes a paddle from whatever is running on it, growing and shrinking from the middle. */
+function resizePaddle(state: GameState, player: number) {
+  const paddle = state.paddles[player]
+  const stacks = runningOn(state, 'girthy', player)?.stacks ?? 0
+  const shrink = runningOn(state, 'shrink', player) ? SHRINK_FACTOR : 1
+  const width = Math.min(state.width * MAX_PADDLE_SHARE, paddleWidth(state.level, state.difficulty) * GIRTHY_GROWTH ** stacks * shrink)
+  paddle.x += (paddle.width - width) / 2
+  paddle.width = width
+}
+
+/** Somewhere for a fake hole that isn't on top of the real one. */
+function decoySpot(state: GameState): Hole {
+  const { holes: [hole], width } = state
+  const mirrored = width - hole.x
+  const aside = hole.x < width / 2 ? hole.x + width / 3 : hole.x - width / 3 // When the hole is near the middle
+  const x = Math.abs(mirrored - hole.x) > hole.radius * 3 ? mirrored : aside
+  return { x: Math.min(Math.max(x, hole.radius), width - hole.radius), y: hole.y, radius: hole.radius }
+}
+
+function addBalls(state: GameState, player: number, count: number) {
+  const baseBall = state.balls[0]
+  const isThrough = state.activePowerUps.some(a => a.type === 'penetrator') // New balls join a running Penetrator
+  for (let i = 0; i < count; i++) {
+    const ball: Ball = {
+      x: baseBall.x, y: baseBall.y, dx: (nextRandom(state) - 0.5) * 8, dy: -Math.abs(baseBall.dy),
+      radius: baseBall.radius, owner: player, isThrough
+    }
+    state.balls.push(ball)
+  }
+}
+
+// --- Registry ---
+
+export const POWER_UPS = {
+  blue_balls: {
+    label: 'Blue Balls',
+    badge: 'BB',
+    color: '#3b82f6',
+    weight: 0.3,
+    target: 'board',
+    apply: (state, player) => addBalls(state, player, 1),
+  },
+  jizztime: {
+    label: 'Jizztime',
+    badge: 'JT',
+    color: '#ffffff',
+    weight: 0.2,
+    target: 'board',
+    apply: (state, player) => addBalls(state, player, 2),
+  },
+  girthy: {
+    label: 'Girthy',
+    badge: '<>',
+    color: '#8b5cf6', // Purple
+    weight: 0.2,
+    target: 'paddle',
+    duration: 15000,
+    stacking: 'stack',
+    maxStacks: 3,
+    apply: (state, player) => resizePaddle(state, player),
+    expire: (state, player) => resizePaddle(state, player),
+  },
+  clingy: {
+    label: 'Clingy',
+    badge: 'U',
+    color: '#10b981', // Green
+    weight: 0.15,
+    target: 'paddle',
+    duration: 12000,
+    stacking: 'extend',
+    apply: (state, player) => { state.paddles[player].isSticky = true },
+    expire: (state, player) => { state.paddles[player].isSticky = false },
+  },
+  penetrator: {
+    label: 'Penetrator',
+    badge: '^',
+    color: '#ef4444', // Red
+    weight: 0.15,
+    target: 'board',
+    duration: 10000,
+    stacking: 'extend',
+    apply: state => state.balls.forEach(b => b.isThrough = true),
+    expire: state => state.balls.forEach(b => b.isThrough = false),
+  },
+
+  // Hazards: they drop from level 2 on, and catching one is worth points
+  shrink: {
+    label: 'Shrinkage',
+    badge: '><',
+    color: '#f43f5e', // Rose
+    weight: 0.1,
+    minLevel: 2,
+    harmful: true,
+    score: 25,
+    target: 'paddle',
+    duration: 10000,
+    apply: (state, player) => resizePaddle(state, player),
+    expire: (state, player) => resizePaddle(state, player),
+  },
+  fast_ball: {
+    label: 'Premature',
+    badge: '>>',
+    color: '#f59e0b', // Amber
+    weight: 0.1,
+    minLevel: 2,
+    harmful: true,
+    score: 25,
+    target: 'board',
+    duration: 8000,
+    ballSpeed: 1.5,
+    apply: () => {},
+  },
+  reversed: {
+    label: 'Backdoor',
+    badge: '<->',
+    color: '#84cc16', // Lime
+    weight: 0.08,
+    minLevel: 3,
+    harmful: true,
+    score: 40,
+    target: 'paddle',
+    duration: 7000,
+    reverseControls: true,
+    apply: () => {},
+  },
+  fake_hole: {
+    label: 'Wrong Hole',
+    badge: '?',
+    color: '#a16207', // Hole brown
+    weight: 0.08,
+    minLevel: 3,
+    harmful: true,
+    score: 40,
+    target: 'board',
+    duration: 12000,
+    apply: state => { state.decoys = [decoySpot(state)] },
+    expire: state => { state.decoys = [] },
+  },
+} satisfies Record<string, PowerUpDefinition>
+
+export type PowerUpType = keyof typeof POWER_UPS
+
+export const powerUpDefinition = (type: PowerUpType): PowerUpDefinition => POWER_UPS[type]
+
+/** How much faster than normal balls move right now. */
+export const ballSpeedFactor = (state: GameState) =>
+  state.activePowerUps.reduce((factor, active) => factor * (powerUpDefinition(active.type).ballSpeed ?? 1), 1)
+
+export const controlsReversed = (state: GameState, player: number) =>
+  state.activePowerUps.some(active => active.player === player && powerUpDefinition(active.type).reverseControls)
+
+// --- Timers ---
+
+/** Applies a caught power-up and starts, refreshes or stacks its timer. */
+export function activatePowerUp(state: GameState, type: PowerUpType, player: number) {
+  if (state.balls.length === 0) return
+
+  const definition = powerUpDefinition(type)
+  const { duration } = definition
+  if (duration === undefined) {
+    definition.apply(state, player, 1)
+    return
+  }
+
+  // Paddle power-ups run per player; board ones once, whoever caught them
+  let active = state.activePowerUps.find(a => a.type === type && (definition.target === 'board' || a.player === player))
+  if (!active) {
+    active = { type, player, remaining: 0, duration: 0, stacks: 0 }
+    state.activePowerUps.push(active)
+  }
+
+  switch (definition.stacking ?? 'refresh') {
+    case 'refresh':
+      active.stacks = 1
+      active.remaining = duration
+      break
+    case 'extend':
+      active.stacks = 1
+      active.remaining += duration
+      break
+    case 'stack':
+      active.stacks = Math.min(active.stacks + 1, definition.maxStacks ?? Infinity)
+      active.remaining = duration
+      break
+  }
+  active.duration = active.remaining // The HUD ring starts full again
+  active.player = player
+  definition.apply(state, player, active.stacks)
+}
+
+/** Counts running power-ups down by `dt` ms and expires the ones that run out. */
+export function updatePowerUps(state: GameState, dt: number, events: GameEvent[]) {
+  state.activePowerUps.forEach(active => active.remaining -= dt)
+  const expired = state.activePowerUps.filter(active => active.remaining <= 0)
+  if (expired.length === 0) return
+
+  // Off the list first, so hooks that look at what's still running (paddle size) see it gone
+  state.activePowerUps = state.activePowerUps.filter(active => active.remaining > 0)
+  expired.forEach(active => {
+    powerUpDefinition(active.type).expire?.(state, active.player)
+    events.push({ type: 'powerup_expired', powerUp: active.type, player: active.player })
+  })
+}
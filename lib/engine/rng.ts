@@ -0,0 +1,53 @@
+/**
+ * Seedable PRNG (mulberry32). The whole generator state is a single uint32,
+ * so it can live inside GameState and survive being copied or serialized.
+ */
+
+export interface RngState {
+  rngState: number
+}
+
+const MAX_SEED = 0xffffffff
+
+export function nextRandom(state: RngState): number {
+  state.rngState = (state.rngState + 0x6d2b79f5) | 0
+  let t = state.rngState
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+/**
+ * Mixes a salt (e.g. the level number) into a seed so every level gets its
+ * own stream: level 3 of seed 1234 looks the same however level 2 went.
+ */
+export function deriveSeed(seed: number, salt: number): number {
+  let h = Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) ^ Math.imul(salt + 1, 0xc2b2ae35)
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b)
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35)
+  return (h ^ (h >>> 16)) >>> 0
+}
+
+/** Hashes text (FNV-1a) into a seed, so a name or a date always gives the same one. */
+export function seedFromText(text: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193)
+  return h >>> 0
+}
+
+/** Standalone generator for code that doesn't own a GameState. */
+export function createRng(seed: number): () => number {
+  const state: RngState = { rngState: seed | 0 }
+  return () => nextRandom(state)
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED)
+}
+
+/** Accepts plain integers from user input such as `?seed=1234`. */
+export function parseSeed(value: string | null | undefined): number | null {
+  if (!value || !/^\d+$/.test(value.trim())) return null
+  const seed = Number(value.trim())
+  return seed <= MAX_SEED ? seed : null
+}
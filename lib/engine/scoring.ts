@@ -0,0 +1,62 @@
+import type { Ball, GameState, Hole, LevelBonus } from './types'
+
+/**
+ * Scoring. Bricks pay more in a chain (broken by a ball that hasn't been back
+ * to a paddle since) and while several balls are in play. Finishing a level
+ * pays bonuses for how it ended, the lives left and the time it took. Every
+ * point goes through addScore so the level's running total stays right.
+ */
+
+// --- Constants ---
+const COMBO_STEP = 0.1 // Extra multiplier for each brick in a chain after the first
+const MAX_COMBO_MULTIPLIER = 3
+const MULTI_BALL_STEP = 0.5 // Extra multiplier for each ball in play after the first
+const MAX_MULTI_BALL_MULTIPLIER = 2
+export const EARLY_BONUS_PER_BRICK = 5 // For each brick still standing when the ball goes in the hole
+export const CLEAR_BONUS = 500
+export const LIFE_BONUS = 50
+export const PAR_MS = 120_000 // A level finished sooner pays a time bonus
+export const TIME_BONUS_PER_SECOND = 5
+
+// --- Multipliers ---
+
+export const comboMultiplier = (combo: number) => Math.min(MAX_COMBO_MULTIPLIER, 1 + COMBO_STEP * Math.max(0, combo - 1))
+
+export const multiBallMultiplier = (balls: number) => Math.min(MAX_MULTI_BALL_MULTIPLIER, 1 + MULTI_BALL_STEP * Math.max(0, balls - 1))
+
+// --- Scoring ---
+
+export function addScore(state: GameState, player: number, points: number) {
+  state.score += points
+  state.playerScores[player] += points
+  state.levelPoints += points
+}
+
+/** Counts a broken brick towards `ball`'s chain and pays out its `base` points, multiplied. */
+export function scoreBrick(state: GameState, ball: Ball, base: number) {
+  const combo = ball.combo = (ball.combo ?? 0) + 1
+  state.stats.bestCombo = Math.max(state.stats.bestCombo, combo)
+  const points = Math.round(base * comboMultiplier(combo) * multiBallMultiplier(state.balls.length))
+  addScore(state, ball.owner ?? 0, points)
+  return { points, combo }
+}
+
+/**
+ * Pays the bonuses for finishing a level to `player`. `standing` is how many
+ * breakable bricks are left and `hole` the one the ball went in, if any.
+ */
+export function scoreLevel(state: GameState, player: number, standing: number, hole?: Hole): LevelBonus {
+  const bonus: LevelBonus = {
+    end: hole ? 'hole' : 'cleared',
+    points: state.levelPoints,
+    early: hole ? standing * EARLY_BONUS_PER_BRICK : 0,
+    cleared: hole ? 0 : CLEAR_BONUS,
+    hole: hole?.bonus ?? 0,
+    lives: state.lives * LIFE_BONUS,
+    time: Math.max(0, Math.ceil((PAR_MS - state.levelTime) / 1000)) * TIME_BONUS_PER_SECOND,
+    total: 0,
+  }
+  bonus.total = bonus.early + bonus.cleared + bonus.hole + bonus.lives + bonus.time
+  addScore(state, player, bonus.total)
+  return bonus
+}
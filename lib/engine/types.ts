@@ -0,0 +1,185 @@
+import type { DifficultySettings } from './difficulty'
+import type { PowerUpType } from './powerUps'
+
+export type { DifficultySettings, PowerUpType }
+
+// --- Types ---
+export interface Ball {
+  x: number
+  y: number
+  dx: number
+  dy: number
+  radius: number
+  isAttached?: boolean // For sticky powerup
+  offsetX?: number // Offset from paddle center when attached
+  isThrough?: boolean // For penetrator powerup
+  prevX?: number // Position before the last step, for interpolated rendering
+  prevY?: number
+  owner?: number // Player who last touched it (index into paddles), 0 if unset
+  combo?: number // Bricks it has broken since it last left a paddle
+}
+
+export interface Paddle {
+  x: number
+  y: number
+  width: number
+  height: number
+  isSticky?: boolean
+  prevX?: number
+}
+
+/**
+ * - explosive: breaking it damages the bricks around it
+ * - moving: slides back and forth around where it was laid out
+ * - regenerating: comes back a while after it's broken
+ * - portal: sends the ball out of its paired portal; can't be broken
+ */
+export type BrickType = 'normal' | 'unbreakable' | 'explosive' | 'moving' | 'regenerating' | 'portal'
+
+export interface Brick {
+  x: number
+  y: number
+  width: number
+  height: number
+  status: number
+  health: number
+  maxHealth: number
+  type: BrickType
+  originX?: number // Moving: centre of its slide
+  vx?: number // Moving: px per 60 Hz frame
+  prevX?: number // Moving: for interpolated rendering
+  regenTime?: number // Regenerating: ms until a broken one comes back
+  link?: number // Portal: index of its partner in `bricks`
+  guards?: number // Shield: index in `holes` of the hole it keeps shut
+  prevY?: number // Shields and endless rows: for interpolated rendering
+}
+
+export interface PowerUp {
+  x: number
+  y: number
+  dy: number
+  type: PowerUpType
+  width: number
+  height: number
+  prevY?: number
+}
+
+/** A timed power-up that's still running (see powerUps.ts). */
+export interface ActivePowerUp {
+  type: PowerUpType
+  player: number // Whose paddle it's on, or who caught it for board-wide ones
+  remaining: number // ms
+  duration: number // ms the current timer started from, for the HUD ring
+  stacks: number
+}
+
+/**
+ * Past x, y and radius everything is optional, so a plain hole (or a decoy)
+ * just sits there. See holes.ts for how the rest behaves.
+ */
+export interface Hole {
+  x: number
+  y: number
+  radius: number
+  prevX?: number // For interpolated rendering
+  prevY?: number
+  path?: { x: number; y: number }[] // Drifting: loops through these, starting from the first
+  target?: number // Drifting: index in `path` it's heading for
+  speed?: number // Drifting: px per 60 Hz frame
+  baseRadius?: number // Pulsing: the radius it swings around
+  pulse?: number // Pulsing: how far, as a share of baseRadius
+  pulseMs?: number // Pulsing: one full swing
+  age?: number // Pulsing: ms since the level started
+  gravity?: number // Pull on nearby balls, px per 60 Hz frame per frame at the centre
+  bonus?: number // Points for going in this one
+}
+
+export interface RunStats {
+  bricksBroken: number
+  powerUpsCaught: number
+  bestCombo: number
+  playTime: number // ms played across every level, restarts included
+}
+
+/** What finishing a level paid on top of its bricks (see scoring.ts). */
+export interface LevelBonus {
+  end: 'hole' | 'cleared'
+  points: number // Scored during the level, before these bonuses
+  early: number // Into the hole with bricks still standing
+  cleared: number
+  hole: number // The hole's own bonus
+  lives: number
+  time: number
+  total: number // All the bonuses together
+}
+
+/** How far an endless run has got (see endless.ts). */
+export interface EndlessProgress {
+  rows: number // Pushed in from the top since the run started
+  drop: number // px the bricks have come down since the last row went in
+}
+
+export type GameStatus = 'playing' | 'level_complete' | 'gameover'
+
+/**
+ * Everything the simulation needs. Plain data only, so the engine runs the
+ * same in the browser, in Node or in a worker.
+ */
+export interface GameState {
+  width: number
+  height: number
+  level: number
+  score: number
+  lives: number
+  status: GameStatus
+  balls: Ball[]
+  paddles: Paddle[] // One per player sharing this board
+  bricks: Brick[]
+  powerUps: PowerUp[]
+  holes: Hole[] // The level's main hole first; any of them ends the level
+  decoys: Hole[] // Fake holes that swallow the ball
+  stats: RunStats
+  playerScores: number[] // Each player's share of `score`
+  server: number // Player whose paddle gets the ball after a life is lost
+  allowedPowerUps: PowerUpType[] // What the current level lets drop
+  activePowerUps: ActivePowerUp[] // Cleared whenever the ball and paddles reset
+  levelTime: number // ms played on this level
+  levelPoints: number // Scored on this level so far
+  endless?: EndlessProgress // Only in endless runs
+  difficulty: DifficultySettings
+  assist: boolean // Trajectory preview and a safety net
+  safetyNets: number // Assist: lost balls still to be bounced back on this level
+  seed: number
+  rngState: number // See rng.ts
+}
+
+/**
+ * What the player did since the last step, whatever the device: pointers
+ * give a target position, keys and sticks a velocity.
+ */
+export interface GameInput {
+  paddleX: number | null // Desired paddle center, null to leave it where it is
+  paddleVelocity: number // px per 60 Hz frame, added on top of paddleX
+  launch: boolean
+}
+
+export type GameEvent =
+  | { type: 'brick_hit'; brick: Brick }
+  | { type: 'brick_destroyed'; brick: Brick; player: number; points: number; combo: number }
+  | { type: 'brick_exploded'; brick: Brick }
+  | { type: 'brick_regenerated'; brick: Brick }
+  | { type: 'portal_used'; from: Brick; to: Brick; ball: Ball }
+  | { type: 'paddle_hit'; ball: Ball; player: number }
+  | { type: 'powerup_caught'; powerUp: PowerUpType; player: number }
+  | { type: 'powerup_expired'; powerUp: PowerUpType; player: number }
+  | { type: 'ball_lost'; ball: Ball }
+  | { type: 'ball_saved'; ball: Ball } // By the assist safety net
+  | { type: 'decoy_entered'; ball: Ball }
+  | { type: 'life_lost'; lives: number }
+  | { type: 'hole_entered'; ball: Ball; hole: Hole }
+  | { type: 'board_cleared' }
+  | { type: 'ball_sunk'; ball: Ball; hole: Hole; points: number; player: number } // Endless: the hole pays out instead of ending anything
+  | { type: 'row_added'; rows: number }
+  | { type: 'bricks_landed' }
+  | { type: 'level_bonus'; bonus: LevelBonus; player: number }
+  | { type: 'game_over' }
@@ -0,0 +1,94 @@
+import { type Migrations, type StoredBlob, migrate } from '@/lib/storage'
+
+/**
+ * Fighters: the built-in pair plus any the player makes on the menu. A
+ * custom fighter's photo is kept as a small JPEG data URL, so the whole
+ * roster lives in localStorage, versioned like the other stored blobs.
+ * Runs, saves and replays refer to fighters by name, which is why names
+ * must be unique.
+ */
+
+// --- Types ---
+
+export interface Fighter {
+  name: string
+  image: string // URL; a data URL for custom fighters
+  color: string // Ball colour, and the fighter's colour in the HUD
+  custom?: boolean
+}
+
+interface FightersFile {
+  version: number
+  fighters: Fighter[]
+}
+
+// --- Constants ---
+const STORAGE_KEY = 'brown-hole:fighters'
+const FIGHTERS_VERSION = 1
+
+export const BUILT_IN_FIGHTERS: Fighter[] = [
+  { name: 'Smashly', image: '/assets/smashly.png', color: '#ec4899' },
+  { name: 'Sagi Tits', image: '/assets/sagitits.png', color: '#8b5cf6' },
+]
+
+export const MAX_CUSTOM_FIGHTERS = 8 // Each photo is a few dozen KB of localStorage
+export const MAX_NAME_LENGTH = 16
+export const FIGHTER_IMAGE_SIZE = 192 // Side of the stored square photo, in pixels
+
+const MIGRATIONS: Migrations = {}
+
+const isFighter = (value: unknown): value is Fighter => {
+  const { name, image, color } = (value ?? {}) as Partial<Record<keyof Fighter, unknown>>
+  return typeof name === 'string' &&
+    typeof image === 'string' && image.startsWith('data:image/') &&
+    typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color)
+}
+
+function validate({ fighters }: StoredBlob): Fighter[] | null {
+  if (!Array.isArray(fighters)) return null
+  return fighters
+    .filter(isFighter)
+    .map(({ name, image, color }) => ({ name, image, color, custom: true }))
+    .slice(0, MAX_CUSTOM_FIGHTERS)
+}
+
+/** Why `name` can't be used for a new fighter, or null if it can. */
+export function fighterNameError(name: string, fighters: Fighter[]): string | null {
+  const trimmed = name.trim()
+  if (!trimmed) return 'Give your fighter a name.'
+  if (trimmed.length > MAX_NAME_LENGTH) return `Names are ${MAX_NAME_LENGTH} characters at most.`
+  if (fighters.some(f => f.name.toLowerCase() === trimmed.toLowerCase())) return `There's already a fighter called ${trimmed}.`
+  return null
+}
+
+// --- Storage ---
+
+/** The player's own fighters; the built-in ones aren't stored. */
+export function loadFighters(): Fighter[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    const migrated = migrate(JSON.parse(raw), FIGHTERS_VERSION, MIGRATIONS, validate)
+    if (!migrated) {
+      console.log("Discarding unreadable fighters")
+      return []
+    }
+    return migrated
+  } catch (e) {
+    console.log("Loading fighters failed", e)
+    return []
+  }
+}
+
+/** Stores the player's own fighters. False if the browser wouldn't take them, usually because storage is full. */
+export function saveFighters(fighters: Fighter[]): boolean {
+  const file: FightersFile = { version: FIGHTERS_VERSION, fighters: fighters.map(({ name, image, color }) => ({ name, image, color })) }
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(file))
+    return true
+  } catch (e) {
+    console.log("Saving fighters failed", e)
+    return false
+  }
+}
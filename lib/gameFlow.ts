@@ -0,0 +1,53 @@
+/**
+ * Screen-level state machine for the game component. Every change of screen
+ * goes through `transition`, so e.g. a stray "level complete" can't fire
+ * while paused, and pausing from the menu is simply a no-op.
+ */
+
+export type Screen = 'menu' | 'playing' | 'paused' | 'level_transition' | 'won' | 'gameover' | 'replay'
+
+export type FlowAction =
+  | 'start'
+  | 'pause'
+  | 'resume'
+  | 'restart_level'
+  | 'complete_level'
+  | 'next_level'
+  | 'win'
+  | 'lose'
+  | 'quit'
+  | 'watch' // Play back a recorded run
+
+const TRANSITIONS: Record<Screen, Partial<Record<FlowAction, Screen>>> = {
+  menu: { start: 'playing', watch: 'replay' },
+  playing: { pause: 'paused', complete_level: 'level_transition', lose: 'gameover', quit: 'menu' },
+  paused: { resume: 'playing', restart_level: 'playing', quit: 'menu' },
+  level_transition: { next_level: 'playing', win: 'won', quit: 'menu' },
+  won: { watch: 'replay', quit: 'menu' },
+  gameover: { watch: 'replay', quit: 'menu' },
+  replay: { quit: 'menu' },
+}
+
+export function transition(screen: Screen, action: FlowAction): Screen {
+  return TRANSITIONS[screen][action] ?? screen
+}
+
+export function canTransition(screen: Screen, action: FlowAction): boolean {
+  return TRANSITIONS[screen][action] !== undefined
+}
+
+/** Screens during which game time runs (and the frame loop with it). */
+export const isRunning = (screen: Screen) => screen === 'playing' || screen === 'level_transition'
+
+/**
+ * Who is playing. Co-op puts two paddles on one board; versus gives each
+ * player their own board, side by side, racing to their own hole. Online is
+ * versus against someone on another machine (see lib/online.ts).
+ */
+export type PlayMode = 'solo' | 'coop' | 'versus' | 'online'
+
+/** Players at this screen. */
+export const playerCount = (mode: PlayMode) => mode === 'coop' || mode === 'versus' ? 2 : 1
+
+/** Modes that race two boards side by side. */
+export const isSplitScreen = (mode: PlayMode) => mode === 'versus' || mode === 'online'
@@ -0,0 +1,278 @@
+import type { GameInput } from '@/lib/engine/types'
+
+/**
+ * One input layer for every device. Mouse and touch report where the paddle
+ * should be; keyboard and gamepad report how fast it should move. Each tick
+ * the game polls a single GameInput, so the engine never knows which was used.
+ */
+
+// --- Types ---
+export type InputAction = 'left' | 'right' | 'launch' | 'pause' | 'slowMotion'
+
+export interface Bindings {
+  keys: Record<InputAction, string[]> // KeyboardEvent.code values
+  buttons: Record<InputAction, number[]> // Standard gamepad button indices
+}
+
+export interface InputController {
+  attach: () => void
+  detach: () => void
+  active: boolean // Movement and launch keys only count while this is set; pause always does
+  onPause: (() => void) | null
+  onSlowMotion: (() => void) | null // Assist mode's toggle; only while active
+  sensitivity: number // Scales how fast keys and sticks steer; pointers go where they point regardless
+  pointerAt: (x: number) => void
+  pressLaunch: () => void
+  update: (dt: number) => void // Once per frame: key acceleration, gamepad polling
+  read: () => GameInput // Once per engine step; consumes one-shot presses
+  reset: () => void
+}
+
+// --- Constants ---
+const STORAGE_KEY = 'brown-hole:bindings'
+
+export const INPUT_ACTIONS: InputAction[] = ['left', 'right', 'launch', 'pause', 'slowMotion']
+
+export const DEFAULT_BINDINGS: Bindings = {
+  keys: {
+    left: ['ArrowLeft', 'KeyA'],
+    right: ['ArrowRight', 'KeyD'],
+    launch: ['Space', 'ArrowUp', 'KeyW'],
+    pause: ['Escape', 'KeyP'],
+    slowMotion: ['KeyS'],
+  },
+  buttons: {
+    left: [14], // D-pad
+    right: [15],
+    launch: [0, 1], // A / B
+    pause: [9], // Start
+    slowMotion: [3], // Y
+  },
+}
+
+// Player two defaults to the arrows so both fit on one keyboard; see withoutConflicts
+export const PLAYER_TWO_BINDINGS: Bindings = {
+  keys: {
+    left: ['ArrowLeft'],
+    right: ['ArrowRight'],
+    launch: ['ArrowUp', 'Enter'],
+    pause: [],
+    slowMotion: [],
+  },
+  buttons: DEFAULT_BINDINGS.buttons, // On their own gamepad
+}
+
+export const defaultBindings = (player: number) => player === 0 ? DEFAULT_BINDINGS : PLAYER_TWO_BINDINGS
+
+const KEY_MAX_SPEED = 12 // px per 60 Hz frame
+const KEY_ACCELERATION = 0.06 // px per frame, per ms held
+const KEY_DECELERATION = 0.12
+const STICK_MAX_SPEED = 14
+const STICK_DEADZONE = 0.15
+
+export const GAMEPAD_BUTTON_NAMES: Record<number, string> = {
+  0: 'A', 1: 'B', 2: 'X', 3: 'Y', 4: 'LB', 5: 'RB', 6: 'LT', 7: 'RT',
+  8: 'Back', 9: 'Start', 10: 'L3', 11: 'R3', 12: 'Up', 13: 'Down', 14: 'Left', 15: 'Right',
+}
+
+/** "KeyA" → "A", "ArrowLeft" → "←" and so on, for the bindings screen. */
+export function keyLabel(code: string): string {
+  const arrows: Record<string, string> = { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' }
+  if (arrows[code]) return arrows[code]
+  if (code.startsWith('Key')) return code.slice(3)
+  if (code.startsWith('Digit')) return code.slice(5)
+  return code
+}
+
+// --- Persistence ---
+
+const storageKey = (player: number) => player === 0 ? STORAGE_KEY : `${STORAGE_KEY}:p${player + 1}`
+
+export function loadBindings(player = 0): Bindings {
+  const defaults = defaultBindings(player)
+  if (typeof window === 'undefined') return defaults
+  try {
+    const raw = window.localStorage.getItem(storageKey(player))
+    if (!raw) return defaults
+    const saved = JSON.parse(raw)
+    // Merge per action so bindings saved before an action existed still work
+    const merge = <T,>(defaults: Record<InputAction, T[]>, stored: unknown) =>
+      Object.fromEntries(INPUT_ACTIONS.map(action => {
+        const value = (stored as Record<string, unknown> | undefined)?.[action]
+        return [action, Array.isArray(value) ? value : defaults[action]]
+      })) as Record<InputAction, T[]>
+    return { keys: merge(defaults.keys, saved?.keys), buttons: merge(defaults.buttons, saved?.buttons) }
+  } catch {
+    return defaults
+  }
+}
+
+export function saveBindings(bindings: Bindings, player = 0) {
+  try {
+    window.localStorage.setItem(storageKey(player), JSON.stringify(bindings))
+  } catch (e) {
+    console.log("Saving bindings failed", e)
+  }
+}
+
+/** Binds `code` to `action`, taking it off whatever action had it before. */
+export function rebind<T>(map: Record<InputAction, T[]>, action: InputAction, code: T): Record<InputAction, T[]> {
+  const next = Object.fromEntries(INPUT_ACTIONS.map(a => [a, map[a].filter(c => c !== code)])) as Record<InputAction, T[]>
+  next[action] = [code, ...next[action]].slice(0, 2) // Keep a primary and an alternate
+  return next
+}
+
+/** Drops keys `other` also uses, so two players on one keyboard never share a key. */
+export function withoutConflicts(bindings: Bindings, other: Bindings): Bindings {
+  const taken = new Set(INPUT_ACTIONS.flatMap(action => other.keys[action]))
+  const keys = Object.fromEntries(INPUT_ACTIONS.map(action => [action, bindings.keys[action].filter(code => !taken.has(code))]))
+  return { ...bindings, keys: keys as Bindings['keys'] }
+}
+
+// --- Controller ---
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+
+/** The `slot`th connected gamepad, so player two gets the second pad plugged in. */
+function readGamepad(slot = 0): Gamepad | null {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return null
+  return navigator.getGamepads().filter((pad): pad is Gamepad => !!pad && pad.connected)[slot] ?? null
+}
+
+export function createInputController(getBindings: () => Bindings, padSlot = 0): InputController {
+  const held = new Set<string>()
+  let pointerX: number | null = null
+  let launchQueued = false
+  let keyVelocity = 0
+  let padVelocity = 0
+  let previousButtons: boolean[] = []
+
+  const isBound = (action: InputAction, code: string) => getBindings().keys[action].includes(code)
+  const isHeld = (action: InputAction) => getBindings().keys[action].some(code => held.has(code))
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (isTyping(e.target)) return
+    if (isBound('pause', e.code)) {
+      e.preventDefault()
+      if (!e.repeat) controller.onPause?.()
+      return
+    }
+    if (!controller.active || !INPUT_ACTIONS.some(action => isBound(action, e.code))) return
+    e.preventDefault()
+    held.add(e.code)
+    if (isBound('launch', e.code) && !e.repeat) launchQueued = true
+    if (isBound('slowMotion', e.code) && !e.repeat) controller.onSlowMotion?.()
+  }
+
+  const onKeyUp = (e: KeyboardEvent) => held.delete(e.code)
+  const onBlur = () => held.clear()
+
+  const controller: InputController = {
+    active: false,
+    onPause: null,
+    onSlowMotion: null,
+    sensitivity: 1,
+
+    attach() {
+      window.addEventListener('keydown', onKeyDown)
+      window.addEventListener('keyup', onKeyUp)
+      window.addEventListener('blur', onBlur)
+    },
+
+    detach() {
+      window.removeEventListener('keydown', onKeyDown)
+      window.removeEventListener('keyup', onKeyUp)
+      window.removeEventListener('blur', onBlur)
+      held.clear()
+    },
+
+    pointerAt(x) {
+      pointerX = x
+    },
+
+    pressLaunch() {
+      launchQueued = true
+    },
+
+    update(dt) {
+      // Keys accelerate the paddle while held and brake it quickly once let go
+      const direction = (isHeld('right') ? 1 : 0) - (isHeld('left') ? 1 : 0)
+      if (direction !== 0) {
+        if (Math.sign(keyVelocity) === -direction) keyVelocity = 0
+        const maxSpeed = KEY_MAX_SPEED * controller.sensitivity
+        keyVelocity = Math.max(-maxSpeed, Math.min(maxSpeed, keyVelocity + direction * KEY_ACCELERATION * controller.sensitivity * dt))
+      } else {
+        const brake = KEY_DECELERATION * dt
+        keyVelocity = Math.abs(keyVelocity) <= brake ? 0 : keyVelocity - Math.sign(keyVelocity) * brake
+      }
+
+      padVelocity = 0
+      const pad = readGamepad(padSlot)
+      if (!pad) return
+      const { buttons } = getBindings()
+      const pressed = pad.buttons.map(button => button.pressed)
+      const down = (action: InputAction) => buttons[action].some(i => pressed[i])
+      const justPressed = (action: InputAction) => buttons[action].some(i => pressed[i] && !previousButtons[i])
+      previousButtons = pressed
+
+      if (justPressed('pause')) controller.onPause?.()
+      if (!controller.active) return
+
+      const stick = pad.axes[0] ?? 0
+      if (Math.abs(stick) > STICK_DEADZONE) {
+        // Rescale past the deadzone so small tilts still give fine control
+        const amount = (Math.abs(stick) - STICK_DEADZONE) / (1 - STICK_DEADZONE)
+        padVelocity = Math.sign(stick) * amount * STICK_MAX_SPEED * controller.sensitivity
+      } else if (down('left') !== down('right')) {
+        padVelocity = (down('right') ? 1 : -1) * STICK_MAX_SPEED * controller.sensitivity
+      }
+      if (justPressed('launch')) launchQueued = true
+      if (justPressed('slowMotion')) controller.onSlowMotion?.()
+    },
+
+    read() {
+      const input: GameInput = {
+        paddleX: pointerX,
+        paddleVelocity: padVelocity || keyVelocity,
+        launch: launchQueued,
+      }
+      pointerX = null
+      launchQueued = false
+      return input
+    },
+
+    reset() {
+      held.clear()
+      pointerX = null
+      launchQueued = false
+      keyVelocity = 0
+      padVelocity = 0
+    },
+  }
+
+  return controller
+}
+
+/** Calls back with the next gamepad button pressed, for rebinding. Call the returned function to stop waiting. */
+export function waitForGamepadButton(callback: (index: number) => void, padSlot = 0): () => void {
+  let frame = 0
+  let initial: boolean[] | null = null
+  const check = () => {
+    const pad = readGamepad(padSlot)
+    if (pad) {
+      const pressed = pad.buttons.map(button => button.pressed)
+      // Ignore buttons that were already down when we started listening
+      if (!initial) initial = pressed
+      const index = pressed.findIndex((down, i) => down && !initial![i])
+      if (index !== -1) {
+        callback(index)
+        return
+      }
+      initial = initial.map((down, i) => down && pressed[i])
+    }
+    frame = requestAnimationFrame(check)
+  }
+  frame = requestAnimationFrame(check)
+  return () => cancelAnimationFrame(frame)
+}
@@ -0,0 +1,30 @@
+import { LevelPackError, parseLevelPack, type LevelPack } from '@/lib/engine/levels'
+
+// Packs live in public/levels/<id>.json, listed in public/levels/index.json
+const LEVEL_PACK_DIR = '/levels'
+
+export interface LevelPackInfo {
+  id: string
+  name: string
+}
+
+export async function fetchLevelPackIndex(): Promise<LevelPackInfo[]> {
+  const res = await fetch(`${LEVEL_PACK_DIR}/index.json`)
+  if (!res.ok) throw new Error(`Could not load level pack index (HTTP ${res.status})`)
+  const json = await res.json()
+  return Array.isArray(json?.packs) ? json.packs : []
+}
+
+export async function fetchLevelPack(id: string): Promise<LevelPack> {
+  const source = `${LEVEL_PACK_DIR}/${id}.json`
+  const res = await fetch(source)
+  if (!res.ok) throw new LevelPackError(source, [`could not be fetched (HTTP ${res.status})`])
+
+  let json: unknown
+  try {
+    json = await res.json()
+  } catch (e) {
+    throw new LevelPackError(source, [`is not valid JSON (${(e as Error).message})`])
+  }
+  return parseLevelPack(json, source)
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { createGame } from '@/lib/engine/game'
+import { DEFAULT_LEVEL_PACK } from '@/lib/engine/levels'
+import { ONLINE_BOARD, encodeBoard, isPeerMessage } from '@/lib/online'
+
+describe('isPeerMessage', () => {
+  it('accepts what clients send each other', () => {
+    const game = createGame(ONLINE_BOARD.width, ONLINE_BOARD.height, 1, DEFAULT_LEVEL_PACK.levels[0])
+    expect(isPeerMessage({ type: 'hello', character: 'Smashly' })).toBe(true)
+    expect(isPeerMessage({ type: 'start', seed: 1, packId: 'classic', pack: DEFAULT_LEVEL_PACK })).toBe(true)
+    expect(isPeerMessage(JSON.parse(JSON.stringify({ type: 'board', board: encodeBoard(game) })))).toBe(true)
+    expect(isPeerMessage({ type: 'round', winner: 1 })).toBe(true)
+  })
+
+  it('drops frames that are not messages', () => {
+    expect(isPeerMessage(undefined)).toBe(false)
+    expect(isPeerMessage('start')).toBe(false)
+    expect(isPeerMessage({ type: 'start', seed: 1, packId: 'classic' })).toBe(false)
+    expect(isPeerMessage({ type: 'board', board: { level: 1 } })).toBe(false)
+    expect(isPeerMessage({ type: 'claim', winner: 'me' })).toBe(false)
+    expect(isPeerMessage({ type: 'teleport' })).toBe(false)
+  })
+})
@@ -0,0 +1,247 @@
+import { POWER_UP_SIZE } from '@/lib/engine/game'
+import { placeHole } from '@/lib/engine/holes'
+import type { LevelPack } from '@/lib/engine/levels'
+import type { ActivePowerUp, GameState, GameStatus, PowerUpType } from '@/lib/engine/types'
+import { isFiniteNumber, isRecord } from '@/lib/storage'
+
+/**
+ * Online versus over the relay in scripts/relay.mjs. Each player simulates
+ * their own board and streams a compact picture of it to the other, who
+ * draws it next to their own. The host (whoever made the room) decides who
+ * reached their hole first, so both screens always agree on the round.
+ */
+
+// --- Constants ---
+
+// Online boards are a fixed size and scaled to fit, so both players get the same layout
+export const ONLINE_BOARD = { width: 560, height: 720 }
+export const BOARD_SEND_MS = 50 // How often our board goes out to the opponent
+
+export const relayUrl = () =>
+  process.env.NEXT_PUBLIC_RELAY_URL ?? `ws://${window.location.hostname}:3001`
+
+// --- Types ---
+
+/** What the relay itself sends us. */
+type ServerMessage =
+  | { type: 'joined'; code: string; player: number }
+  | { type: 'peer_joined' }
+  | { type: 'peer_left'; player: number } // Our seat now; the one left behind becomes host
+  | { type: 'relay'; data: unknown } // Checked with isPeerMessage before it's handed on
+  | { type: 'error'; message: string }
+
+/** The part of a board the opponent needs to draw it. Bricks are healths, in layout order. */
+export interface BoardSnapshot {
+  level: number
+  score: number
+  lives: number
+  status: GameStatus
+  balls: [x: number, y: number, radius: number, owner: number][]
+  paddles: [x: number, y: number, width: number, isSticky: boolean][]
+  powerUps: [x: number, y: number, type: PowerUpType][]
+  holes: [x: number, y: number, radius: number][]
+  decoys: [x: number, y: number, radius: number][]
+  active: ActivePowerUp[] // For the HUD timers
+  bricks: number[] // 0 once broken
+  movingX: number[] // Where each moving brick is, in layout order
+}
+
+/** What players send each other through the relay. Player numbers are absolute: 0 is the host. */
+export type PeerMessage =
+  | { type: 'hello'; character: string }
+  | { type: 'start'; seed: number; packId: string; pack: LevelPack }
+  | { type: 'board'; board: BoardSnapshot }
+  | { type: 'claim'; winner: number } // Guest to host: "this round should go to `winner`"
+  | { type: 'round'; winner: number } // Host to guest: the decision
+  | { type: 'quit' }
+
+export interface RelayHandlers {
+  onJoined: (code: string, player: number) => void
+  onPeerJoined: () => void
+  onPeerLeft: (player: number) => void
+  onMessage: (message: PeerMessage) => void
+  onError: (message: string) => void
+  onClose: () => void
+}
+
+export interface RelayClient {
+  create: () => void
+  join: (code: string) => void
+  send: (message: PeerMessage) => void
+  close: () => void
+}
+
+// --- Checks ---
+
+const STATUSES: GameStatus[] = ['playing', 'level_complete', 'gameover']
+
+const isTuples = (value: unknown, length: number): value is unknown[][] =>
+  Array.isArray(value) && value.every(item => Array.isArray(item) && item.length === length)
+
+const isNumbers = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(isFiniteNumber)
+
+function isBoard(board: unknown): board is BoardSnapshot {
+  if (!isRecord(board) || !isFiniteNumber(board.level) || !isFiniteNumber(board.score) || !isFiniteNumber(board.lives)) return false
+  return STATUSES.includes(board.status as GameStatus) &&
+    isTuples(board.balls, 4) && isTuples(board.paddles, 4) && isTuples(board.powerUps, 3) &&
+    isTuples(board.holes, 3) && isTuples(board.decoys, 3) &&
+    Array.isArray(board.active) && isNumbers(board.bricks) && isNumbers(board.movingX)
+}
+
+/**
+ * Whether data relayed from the other client is a message we understand.
+ * The pack in a start message is only checked for being there; the receiver
+ * runs it through parseLevelPack before playing it.
+ */
+export function isPeerMessage(value: unknown): value is PeerMessage {
+  if (!isRecord(value)) return false
+  switch (value.type) {
+    case 'hello':
+      return typeof value.character === 'string'
+    case 'start':
+      return isFiniteNumber(value.seed) && typeof value.packId === 'string' && isRecord(value.pack)
+    case 'board':
+      return isBoard(value.board)
+    case 'claim':
+    case 'round':
+      return value.winner === 0 || value.winner === 1
+    case 'quit':
+      return true
+    default:
+      return false
+  }
+}
+
+// --- Connection ---
+
+/** Opens a connection to the relay. Requests made before it opens are queued. */
+export function createRelayClient(url: string, handlers: RelayHandlers): RelayClient {
+  const socket = new WebSocket(url)
+  const queue: string[] = []
+  let opened = false
+  let closedByUs = false
+
+  const raw = (message: object) => {
+    const text = JSON.stringify(message)
+    if (socket.readyState === WebSocket.OPEN) socket.send(text)
+    else queue.push(text)
+  }
+
+  socket.addEventListener('open', () => {
+    opened = true
+    queue.splice(0).forEach(text => socket.send(text))
+  })
+
+  socket.addEventListener('message', event => {
+    let message: ServerMessage
+    try {
+      message = JSON.parse(String(event.data))
+    } catch {
+      return
+    }
+    if (!isRecord(message)) return
+    switch (message.type) {
+      case 'joined':
+        handlers.onJoined(message.code, message.player)
+        break
+      case 'peer_joined':
+        handlers.onPeerJoined()
+        break
+      case 'peer_left':
+        handlers.onPeerLeft(message.player)
+        break
+      case 'relay':
+        // Whatever the other client sends; anything malformed is dropped
+        if (isPeerMessage(message.data)) handlers.onMessage(message.data)
+        break
+      case 'error':
+        handlers.onError(message.message)
+        break
+    }
+  })
+
+  socket.addEventListener('error', () => {
+    handlers.onError(`Can't reach the relay at ${url}. Is \`npm run relay\` running?`)
+  })
+  // A connection that never opened has already been reported by 'error'
+  socket.addEventListener('close', () => {
+    if (opened && !closedByUs) handlers.onClose()
+  })
+
+  return {
+    create: () => raw({ type: 'create' }),
+    join: code => raw({ type: 'join', code: code.trim().toUpperCase() }),
+    send: data => raw({ type: 'relay', data }),
+    close: () => {
+      closedByUs = true
+      socket.close()
+    },
+  }
+}
+
+// --- Board sync ---
+
+export function encodeBoard(state: GameState): BoardSnapshot {
+  return {
+    level: state.level,
+    score: state.score,
+    lives: state.lives,
+    status: state.status,
+    balls: state.balls.map(b => [b.x, b.y, b.radius, b.owner ?? 0]),
+    paddles: state.paddles.map(p => [p.x, p.y, p.width, !!p.isSticky]),
+    powerUps: state.powerUps.map(p => [p.x, p.y, p.type]),
+    holes: state.holes.map(h => [h.x, h.y, h.radius]),
+    decoys: state.decoys.map(d => [d.x, d.y, d.radius]),
+    active: state.activePowerUps,
+    bricks: state.bricks.map(b => b.status === 1 ? b.health : 0),
+    movingX: state.bricks.filter(b => b.type === 'moving').map(b => b.x),
+  }
+}
+
+/**
+ * Copies a snapshot onto our copy of the opponent's board, which must already
+ * be on the same level. The previous positions are kept for interpolation.
+ */
+export function applyBoard(state: GameState, board: BoardSnapshot) {
+  state.score = board.score
+  state.lives = board.lives
+  state.status = board.status
+
+  state.balls = board.balls.map(([x, y, radius, owner], i) => ({
+    x, y, radius, owner, dx: 0, dy: 0,
+    prevX: state.balls[i]?.x,
+    prevY: state.balls[i]?.y,
+  }))
+  board.paddles.forEach(([x, y, width, isSticky], i) => {
+    const paddle = state.paddles[i]
+    if (!paddle) return
+    paddle.prevX = paddle.x
+    Object.assign(paddle, { x, y, width, isSticky })
+  })
+  state.powerUps = board.powerUps.map(([x, y, type], i) => ({
+    x, y, type, dy: 0, width: POWER_UP_SIZE, height: POWER_UP_SIZE,
+    prevY: state.powerUps[i]?.type === type ? state.powerUps[i].y : undefined,
+  }))
+  // Moving a hole moves its shield too
+  board.holes.forEach(([x, y, radius], i) => {
+    const hole = state.holes[i]
+    if (!hole) return
+    hole.prevX = hole.x
+    hole.prevY = hole.y
+    hole.radius = radius
+    placeHole(state, i, x, y)
+  })
+  state.decoys = board.decoys.map(([x, y, radius]) => ({ x, y, radius }))
+  state.activePowerUps = board.active
+  board.bricks.forEach((health, i) => {
+    const brick = state.bricks[i]
+    if (!brick) return
+    brick.health = health || brick.health
+    brick.status = health > 0 ? 1 : 0
+  })
+  state.bricks.filter(b => b.type === 'moving').forEach((brick, i) => {
+    brick.prevX = brick.x
+    brick.x = board.movingX[i] ?? brick.x
+  })
+}
@@ -0,0 +1,160 @@
+import type { DifficultyPreset } from '@/lib/engine/difficulty'
+import { type Migrations, type StoredBlob, migrate } from '@/lib/storage'
+
+/**
+ * Local leaderboard and run history, kept in localStorage so they survive
+ * reloads. The stored blob is versioned; when its shape changes, bump
+ * RECORDS_VERSION and add a step to MIGRATIONS instead of dropping old runs.
+ */
+
+// --- Types ---
+export type GameMode = 'campaign' | 'endless' | 'daily' // Each has its own leaderboard; daily only takes each day's scored attempt
+
+export interface RunRecord {
+  id: string
+  initials: string
+  character: string
+  mode: GameMode
+  difficulty: DifficultyPreset
+  assist: boolean
+  pack: string
+  score: number
+  level: number // Level reached
+  lives: number // Lives left when the run ended
+  won: boolean
+  seed: number
+  date: string // ISO timestamp
+  bricksBroken: number
+  powerUpsCaught: number
+}
+
+interface RecordsFile {
+  version: number
+  runs: RunRecord[]
+}
+
+// --- Constants ---
+const STORAGE_KEY = 'brown-hole:records'
+const INITIALS_KEY = 'brown-hole:initials'
+export const RECORDS_VERSION = 2
+const MAX_RUNS = 500 // Oldest runs are dropped beyond this
+export const LEADERBOARD_SIZE = 10
+
+const MIGRATIONS: Migrations = {
+  // v2: runs note the difficulty they were played on
+  1: ({ runs, ...data }) => ({ ...data, runs: Array.isArray(runs) ? runs.map((run: object) => ({ ...run, difficulty: 'normal', assist: false })) : runs }),
+}
+
+const emptyRecords = (): RecordsFile => ({ version: RECORDS_VERSION, runs: [] })
+
+const validate = ({ runs }: StoredBlob): RecordsFile | null =>
+  Array.isArray(runs) ? { version: RECORDS_VERSION, runs } : null
+
+// --- Storage ---
+
+// Set when the stored blob comes from a newer build, so we never overwrite it
+let readOnly = false
+
+export function loadRecords(): RecordsFile {
+  if (typeof window === 'undefined') return emptyRecords()
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return emptyRecords()
+    const parsed = JSON.parse(raw)
+    if (typeof parsed?.version === 'number' && parsed.version > RECORDS_VERSION) {
+      readOnly = true
+      return { version: RECORDS_VERSION, runs: Array.isArray(parsed.runs) ? parsed.runs : [] }
+    }
+    const migrated = migrate(parsed, RECORDS_VERSION, MIGRATIONS, validate)
+    if (!migrated) {
+      console.log("Discarding unreadable run history")
+      return emptyRecords()
+    }
+    if (migrated.version !== parsed.version) writeRecords(migrated)
+    return migrated
+  } catch (e) {
+    console.log("Loading run history failed", e)
+    return emptyRecords()
+  }
+}
+
+function writeRecords(records: RecordsFile) {
+  if (readOnly) return
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(records))
+  } catch (e) {
+    console.log("Saving run history failed", e)
+  }
+}
+
+export function saveRun(run: Omit<RunRecord, 'id' | 'date'>): RunRecord {
+  const record: RunRecord = {
+    ...run,
+    initials: normalizeInitials(run.initials),
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    date: new Date().toISOString(),
+  }
+  const records = loadRecords()
+  records.runs = [...records.runs, record].slice(-MAX_RUNS)
+  writeRecords(records)
+  rememberInitials(record.initials)
+  return record
+}
+
+/** Initials are asked for after the run is stored, so a skipped prompt still keeps the run. */
+export function updateInitials(id: string, initials: string) {
+  const records = loadRecords()
+  const run = records.runs.find(r => r.id === id)
+  if (!run) return
+  run.initials = normalizeInitials(initials)
+  writeRecords(records)
+  rememberInitials(run.initials)
+}
+
+export function normalizeInitials(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3) || '???'
+}
+
+export function lastInitials(): string {
+  if (typeof window === 'undefined') return ''
+  return window.localStorage.getItem(INITIALS_KEY) ?? ''
+}
+
+function rememberInitials(initials: string) {
+  try {
+    window.localStorage.setItem(INITIALS_KEY, initials)
+  } catch {
+    // Not worth bothering the player about
+  }
+}
+
+// --- Queries ---
+
+const byScore = (a: RunRecord, b: RunRecord) => b.score - a.score || b.level - a.level || a.date.localeCompare(b.date)
+
+export function topRuns(runs: RunRecord[], character: string, mode: GameMode, limit = LEADERBOARD_SIZE): RunRecord[] {
+  return runs
+    .filter(run => run.character === character && run.mode === mode)
+    .sort(byScore)
+    .slice(0, limit)
+}
+
+/** 1-based place of a stored run in its character/mode table, or null if it didn't make it. */
+export function rankOf(runs: RunRecord[], run: RunRecord): number | null {
+  const index = topRuns(runs, run.character, run.mode).findIndex(r => r.id === run.id)
+  return index === -1 ? null : index + 1
+}
+
+export function recentRuns(runs: RunRecord[], limit = 10): RunRecord[] {
+  return runs.slice(-limit).reverse()
+}
+
+export function runStats(runs: RunRecord[]) {
+  return {
+    runs: runs.length,
+    wins: runs.filter(run => run.won).length,
+    bestScore: runs.reduce((best, run) => Math.max(best, run.score), 0),
+    bricksBroken: runs.reduce((sum, run) => sum + run.bricksBroken, 0),
+    powerUpsCaught: runs.reduce((sum, run) => sum + run.powerUpsCaught, 0),
+  }
+}
@@ -0,0 +1,548 @@
+import { predictPath } from '@/lib/engine/assist'
+import { FRAME_MS, PORTAL_SCORE, REGEN_MS, isBreakable } from '@/lib/engine/game'
+import { PULL_RANGE, holeIsOpen } from '@/lib/engine/holes'
+import { POWER_UPS, type PowerUpDefinition, type PowerUpType, powerUpDefinition } from '@/lib/engine/powerUps'
+import type { BrickType, GameEvent, GameState, Hole } from '@/lib/engine/types'
+import { THEMES, type Theme, type ThemeName } from '@/lib/themes'
+
+// --- Types ---
+interface Particle {
+  x: number
+  y: number
+  dx: number
+  dy: number
+  life: number
+  color: string
+}
+
+/** Floating score text that rises and fades. */
+interface Popup {
+  x: number
+  y: number
+  text: string
+  size: number // px
+  color: string
+  life: number
+}
+
+/** Purely visual state that lives next to the simulation, never inside it. */
+export interface Effects {
+  particles: Particle[]
+  popups: Popup[]
+  shake: number
+}
+
+export interface PlayerSkin {
+  ballImage: HTMLImageElement | null
+  ballColor: string
+}
+
+/** How much shake and how many particles events set off, as scales of the usual; 0 turns either off. */
+export interface EffectLevels {
+  shake: number
+  particles: number
+}
+
+/** One skin per player; balls are drawn in their owner's. */
+export interface RenderAssets {
+  players: PlayerSkin[]
+}
+
+// --- Theme ---
+
+let theme: Theme = THEMES.classic
+const images = new Map<string, HTMLImageElement | null>() // null until loaded, and for ones that failed
+
+/** Switches what everything is drawn in, from the next frame on. Its images load in the background. */
+export function setTheme(name: ThemeName) {
+  theme = THEMES[name] ?? THEMES.classic
+  ;[theme.paddleSprite, theme.holeImage].forEach(url => {
+    if (!url || images.has(url) || typeof Image === 'undefined') return
+    images.set(url, null)
+    const img = new Image()
+    img.onload = () => images.set(url, img)
+    img.src = url
+  })
+}
+
+export const activeTheme = () => theme
+
+// Settings can ask for health patterns in any theme; some themes always have them
+let healthPatterns = false
+
+export function setHealthPatterns(on: boolean) {
+  healthPatterns = on
+}
+
+const themeImage = (url: string | undefined) => url ? images.get(url) ?? null : null
+
+export const powerUpColor = (type: PowerUpType) => theme.powerUps?.[type] ?? powerUpDefinition(type).color
+
+const font = (size: number, weight: string | number = 'bold', family = theme.fonts.label) => `${weight} ${size}px ${family}`
+
+// --- Constants ---
+
+// Running power-ups are shown as rings along the top right of each board
+const TIMER_RADIUS = 16
+const TIMER_TOP = 90 // Clear of the HUD bar
+
+// Blend between the previous and current simulation step
+const lerp = (from: number | undefined, to: number, alpha: number) =>
+  from === undefined ? to : from + (to - from) * alpha
+
+export const getBrickColor = (health: number) => {
+  return theme.bricks[(health - 1) % theme.bricks.length]
+}
+
+/** Fill for a brick of `type`; the plain kinds go by health. */
+export const brickFill = (type: BrickType, health: number) => {
+  switch (type) {
+    case 'unbreakable': return theme.unbreakable
+    case 'explosive': return theme.explosive
+    case 'portal': return theme.portal
+    default: return getBrickColor(health)
+  }
+}
+
+// Themes with their own particle colours use those in place of whatever set them off
+const burst = (effects: Effects, x: number, y: number, count: number, speed: number, color: string) => {
+  const colors = theme.particles.colors
+  for (let k = 0; k < count; k++) {
+    effects.particles.push({
+      x,
+      y,
+      dx: (Math.random() - 0.5) * speed,
+      dy: (Math.random() - 0.5) * speed,
+      life: 1,
+      color: colors ? colors[k % colors.length] : color,
+    })
+  }
+}
+
+const popup = (effects: Effects, x: number, y: number, text: string, size: number, color: string) => {
+  effects.popups.push({ x, y, text, size, color, life: 1 })
+}
+
+const FULL_EFFECTS: EffectLevels = { shake: 1, particles: 1 }
+
+const CHAIN_CALLOUT = 5 // Every this many bricks in a chain gets its own popup
+
+// --- Effects ---
+
+export function createEffects(): Effects {
+  return { particles: [], popups: [], shake: 0 }
+}
+
+/** Turns engine events into particles and screen shake. */
+export function applyEvents(effects: Effects, events: GameEvent[], levels: EffectLevels = FULL_EFFECTS) {
+  const spark = (x: number, y: number, count: number, speed: number, color: string) =>
+    burst(effects, x, y, Math.round(count * levels.particles), speed, color)
+  const shake = (amount: number) => { effects.shake = Math.max(effects.shake, amount * levels.shake) }
+
+  events.forEach(event => {
+    switch (event.type) {
+      case 'brick_destroyed': {
+        const { brick, points, combo } = event
+        const x = brick.x + brick.width / 2
+        const y = brick.y + brick.height / 2
+        spark(x, y, 6, 6, brickFill(brick.type, brick.maxHealth))
+        const heat = theme.popups[Math.min(theme.popups.length - 1, Math.floor(combo / CHAIN_CALLOUT))]
+        if (points > 0) popup(effects, x, y, `+${points}`, 12 + Math.min(combo, 10), heat)
+        if (combo % CHAIN_CALLOUT === 0) popup(effects, x, y - 20, `${combo} CHAIN!`, 20, heat)
+        break
+      }
+      case 'brick_exploded': {
+        const { brick } = event
+        spark(brick.x + brick.width / 2, brick.y + brick.height / 2, 16, 12, theme.explosive)
+        shake(6)
+        break
+      }
+      case 'brick_regenerated': {
+        const { brick } = event
+        spark(brick.x + brick.width / 2, brick.y + brick.height / 2, 4, 3, theme.regenerating)
+        break
+      }
+      case 'portal_used':
+        spark(event.ball.x, event.ball.y, 8, 5, theme.portalRims[0])
+        popup(effects, event.ball.x, event.ball.y, `+${PORTAL_SCORE}`, 12, theme.portalRims[0])
+        break
+      case 'ball_lost':
+        shake(10)
+        break
+      case 'hole_entered':
+        shake(20)
+        break
+      case 'ball_sunk': {
+        const { hole, points } = event
+        spark(hole.x, hole.y, 20, 8, theme.holeRim)
+        popup(effects, hole.x, hole.y, `+${points}`, 24, theme.popups[1])
+        shake(8)
+        break
+      }
+      case 'bricks_landed':
+        shake(20)
+        break
+      case 'ball_saved':
+        spark(event.ball.x, event.ball.y, 12, 6, theme.safetyNet)
+        break
+    }
+  })
+}
+
+/** Advances particles and shake by `dt` ms of real time. */
+export function updateEffects(effects: Effects, dt: number) {
+  const t = dt / FRAME_MS
+  effects.particles.forEach(p => {
+    p.x += p.dx * t
+    p.y += p.dy * t
+    p.life -= 0.04 * t
+  })
+  effects.particles = effects.particles.filter(p => p.life > 0)
+  effects.popups.forEach(p => {
+    p.y -= 0.8 * t
+    p.life -= 0.02 * t
+  })
+  effects.popups = effects.popups.filter(p => p.life > 0)
+
+  if (effects.shake > 0) {
+    effects.shake *= Math.pow(0.9, t)
+    if (effects.shake < 0.5) effects.shake = 0
+  }
+}
+
+// --- Drawing ---
+
+/**
+ * Draws the current state. `alpha` (0..1) is how far real time has moved
+ * past the last fixed step; moving objects are interpolated by it.
+ */
+export function drawGame(ctx: CanvasRenderingContext2D, state: GameState, effects: Effects, assets: RenderAssets, alpha = 1) {
+  const { paddles, bricks, powerUps, balls } = state
+
+  // Screen Shake
+  ctx.save()
+  if (effects.shake > 0) {
+    const dx = (Math.random() - 0.5) * effects.shake
+    const dy = (Math.random() - 0.5) * effects.shake
+    ctx.translate(dx, dy)
+  }
+
+  // Clear
+  ctx.clearRect(-10, -10, ctx.canvas.width + 20, ctx.canvas.height + 20)
+
+  // Draw Holes, and the fake ones, which give themselves away only by their spelling
+  state.holes.forEach((hole, i) => drawHole(ctx, hole, hole.bonus ? `+${hole.bonus}` : 'BROWN HOLE', alpha, holeIsOpen(state, i)))
+  state.decoys.forEach(decoy => drawHole(ctx, decoy, 'BR0WN H0LE', alpha))
+
+  // Draw Bricks
+  bricks.forEach((brick, i) => {
+    if (brick.status !== 1) {
+      // Where a regenerating brick will come back, firming up as it does
+      if (brick.type === 'regenerating' && brick.regenTime !== undefined) {
+        ctx.save()
+        ctx.globalAlpha = 0.15 + 0.45 * (1 - brick.regenTime / REGEN_MS)
+        ctx.setLineDash([4, 4])
+        ctx.strokeStyle = theme.regenerating
+        ctx.lineWidth = 2
+        ctx.strokeRect(brick.x, brick.y, brick.width, brick.height)
+        ctx.restore()
+      }
+      return
+    }
+
+    // Moving bricks and the shields of drifting holes are the ones with a previous position
+    const x = lerp(brick.prevX, brick.x, alpha)
+    const y = lerp(brick.prevY, brick.y, alpha)
+    const cx = x + brick.width / 2
+    const cy = y + brick.height / 2
+    ctx.beginPath()
+    ctx.roundRect(x, y, brick.width, brick.height, 4)
+    ctx.fillStyle = brick.guards === undefined ? brickFill(brick.type, brick.health) : theme.shield
+    ctx.fill()
+    ctx.fillStyle = 'rgba(255,255,255,0.1)'
+    ctx.fill()
+
+    switch (brick.type) {
+      case 'explosive':
+        ctx.beginPath()
+        ctx.arc(cx, cy, 5, 0, Math.PI * 2)
+        ctx.fillStyle = theme.explosiveCore
+        ctx.fill()
+        break
+      case 'moving':
+        ctx.fillStyle = 'rgba(255,255,255,0.8)'
+        ctx.font = font(10)
+        ctx.textAlign = 'left'
+        ctx.fillText('‹', x + 3, cy + 4)
+        ctx.textAlign = 'right'
+        ctx.fillText('›', x + brick.width - 3, cy + 4)
+        ctx.textAlign = 'center'
+        break
+      case 'regenerating':
+        ctx.strokeStyle = theme.regenerating
+        ctx.lineWidth = 2
+        ctx.stroke()
+        break
+      case 'portal':
+        ctx.beginPath()
+        ctx.ellipse(cx, cy, brick.width / 2 - 4, brick.height / 2 - 4, 0, 0, Math.PI * 2)
+        ctx.strokeStyle = brick.link === undefined ? theme.unbreakable : theme.portalRims[Math.min(i, brick.link) % theme.portalRims.length]
+        ctx.lineWidth = 3
+        ctx.stroke()
+        break
+    }
+
+    if (theme.outline) {
+      ctx.beginPath()
+      ctx.roundRect(x, y, brick.width, brick.height, 4)
+      ctx.strokeStyle = theme.outline
+      ctx.lineWidth = 2
+      ctx.stroke()
+    }
+
+    if (isBreakable(brick) && brick.health > 1 && (healthPatterns || theme.healthPatterns)) {
+      drawHealthPattern(ctx, x, y, brick.width, brick.height, brick.health)
+    }
+
+    if (isBreakable(brick) && brick.health > 1) {
+      ctx.fillStyle = 'rgba(255,255,255,0.8)'
+      ctx.font = font(10, 'normal')
+      ctx.textAlign = 'center'
+      ctx.fillText(brick.health.toString(), cx, cy + 4)
+    }
+    ctx.closePath()
+  })
+
+  // Draw Paddles
+  paddles.forEach((paddle, player) => {
+    const x = lerp(paddle.prevX, paddle.x, alpha)
+    const sprite = themeImage(theme.paddleSprite)
+    ctx.beginPath()
+    ctx.roundRect(x, paddle.y, paddle.width, paddle.height, 8)
+    ctx.fillStyle = paddle.isSticky ? powerUpColor('clingy') : theme.paddle
+    ctx.fill()
+    // The sprite goes over the fill, so a sticky paddle still shows its colour round the edges
+    if (sprite) ctx.drawImage(sprite, x, paddle.y, paddle.width, paddle.height)
+    // Shared boards outline each paddle in its player's colour, outlined themes in theirs
+    if (paddles.length > 1 || theme.outline) {
+      ctx.strokeStyle = paddles.length > 1 ? assets.players[player]?.ballColor ?? theme.text : theme.outline ?? theme.text
+      ctx.lineWidth = 3
+      ctx.stroke()
+    }
+    ctx.closePath()
+  })
+
+  // Draw PowerUps
+  // Hazards are dark with a spiky rim in their colour
+  powerUps.forEach(p => {
+    const definition: PowerUpDefinition | undefined = POWER_UPS[p.type]
+    const color = definition ? powerUpColor(p.type) : '#fff'
+    const y = lerp(p.prevY, p.y, alpha)
+    ctx.save()
+    ctx.beginPath()
+    ctx.arc(p.x, y, p.width / 2, 0, Math.PI*2)
+    ctx.fillStyle = definition?.harmful ? '#111' : color
+    ctx.fill()
+    ctx.strokeStyle = definition?.harmful ? color : '#fff'
+    ctx.lineWidth = 2
+    if (definition?.harmful) ctx.setLineDash([3, 3])
+    ctx.stroke()
+
+    ctx.fillStyle = definition?.harmful ? color : '#fff'
+    ctx.font = font(10)
+    ctx.textAlign = 'center'
+    ctx.fillText(definition?.badge ?? '?', p.x, y + 4)
+    ctx.closePath()
+    ctx.restore()
+  })
+
+  // Assist: where each ball is headed, and the net along the bottom while it's still up
+  if (state.assist) {
+    ctx.save()
+    ctx.setLineDash([2, 8])
+    ctx.lineCap = 'round'
+    ctx.lineWidth = 3
+    ctx.strokeStyle = theme.trajectory
+    balls.forEach(ball => {
+      const path = predictPath(state, ball)
+      if (path.length < 2) return
+      ctx.beginPath()
+      path.forEach(({ x, y }, i) => i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y))
+      ctx.stroke()
+    })
+    if (state.safetyNets > 0) {
+      ctx.setLineDash([12, 6])
+      ctx.strokeStyle = theme.safetyNet
+      ctx.beginPath()
+      ctx.moveTo(0, state.height - 2)
+      ctx.lineTo(state.width, state.height - 2)
+      ctx.stroke()
+    }
+    ctx.restore()
+  }
+
+  // Draw Balls
+  balls.forEach(ball => {
+    const x = lerp(ball.prevX, ball.x, alpha)
+    const y = lerp(ball.prevY, ball.y, alpha)
+    const skin = assets.players[ball.owner ?? 0] ?? assets.players[0]
+    ctx.beginPath()
+    if (skin.ballImage) {
+      ctx.save()
+      ctx.beginPath()
+      ctx.arc(x, y, ball.radius, 0, Math.PI * 2)
+      ctx.closePath()
+      ctx.clip()
+      ctx.drawImage(skin.ballImage, x - ball.radius, y - ball.radius, ball.radius * 2, ball.radius * 2)
+      ctx.restore()
+    } else {
+      ctx.arc(x, y, ball.radius, 0, Math.PI * 2)
+      ctx.fillStyle = skin.ballColor
+      ctx.fill()
+    }
+    if (ball.isThrough || theme.outline) {
+      ctx.beginPath()
+      ctx.arc(x, y, ball.radius, 0, Math.PI * 2)
+      ctx.strokeStyle = ball.isThrough ? powerUpColor('penetrator') : theme.outline ?? theme.text
+      ctx.lineWidth = 2
+      ctx.stroke()
+    }
+    ctx.closePath()
+  })
+
+  // Draw Particles
+  effects.particles.forEach(p => {
+    ctx.globalAlpha = p.life
+    ctx.fillStyle = p.color
+    const { shape, size } = theme.particles
+    if (shape === 'circle') {
+      ctx.beginPath()
+      ctx.arc(p.x, p.y, size / 2, 0, Math.PI * 2)
+      ctx.fill()
+    } else {
+      ctx.fillRect(p.x, p.y, size, size)
+    }
+    ctx.globalAlpha = 1
+  })
+
+  // Draw Popups
+  ctx.textAlign = 'center'
+  ctx.lineWidth = 3
+  ctx.strokeStyle = 'rgba(0,0,0,0.7)'
+  effects.popups.forEach(p => {
+    ctx.globalAlpha = Math.min(1, p.life * 2)
+    ctx.font = font(p.size, 900, theme.fonts.popup)
+    ctx.strokeText(p.text, p.x, p.y)
+    ctx.fillStyle = p.color
+    ctx.fillText(p.text, p.x, p.y)
+  })
+  ctx.globalAlpha = 1
+
+  ctx.restore()
+
+  drawPowerUpTimers(ctx, state)
+}
+
+/**
+ * Health told apart by pattern as well as colour: two hits left is stripes,
+ * three is dots, four or more is cross-hatching.
+ */
+function drawHealthPattern(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, health: number) {
+  const gap = 8
+  ctx.save()
+  ctx.beginPath()
+  ctx.roundRect(x, y, width, height, 4)
+  ctx.clip()
+  ctx.fillStyle = ctx.strokeStyle = theme.healthPattern
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  if (health === 3) {
+    for (let dx = gap / 2; dx < width; dx += gap) {
+      for (let dy = gap / 2; dy < height; dy += gap) {
+        ctx.moveTo(x + dx + 1.5, y + dy)
+        ctx.arc(x + dx, y + dy, 1.5, 0, Math.PI * 2)
+      }
+    }
+    ctx.fill()
+  } else {
+    for (let d = -height; d < width; d += gap) {
+      ctx.moveTo(x + d, y + height)
+      ctx.lineTo(x + d + height, y)
+      if (health > 3) {
+        ctx.moveTo(x + d, y)
+        ctx.lineTo(x + d + height, y + height)
+      }
+    }
+    ctx.stroke()
+  }
+  ctx.restore()
+}
+
+/** A shut hole (its shield still standing) is drawn faded; a gravity well gets a halo as far as it pulls. */
+function drawHole(ctx: CanvasRenderingContext2D, hole: Hole, label: string, alpha: number, open = true) {
+  const x = lerp(hole.prevX, hole.x, alpha)
+  const y = lerp(hole.prevY, hole.y, alpha)
+  ctx.save()
+  if (hole.gravity && open) {
+    const reach = hole.radius * PULL_RANGE
+    const halo = ctx.createRadialGradient(x, y, hole.radius, x, y, reach)
+    halo.addColorStop(0, `rgba(${theme.gravityHalo}, 0.18)`)
+    halo.addColorStop(1, `rgba(${theme.gravityHalo}, 0)`)
+    ctx.beginPath()
+    ctx.arc(x, y, reach, 0, Math.PI * 2)
+    ctx.fillStyle = halo
+    ctx.fill()
+  }
+
+  if (!open) ctx.globalAlpha = 0.4
+  ctx.beginPath()
+  ctx.arc(x, y, hole.radius, 0, Math.PI * 2)
+  ctx.fillStyle = theme.hole
+  ctx.fill()
+  const art = themeImage(theme.holeImage)
+  if (art) {
+    ctx.save()
+    ctx.clip()
+    ctx.drawImage(art, x - hole.radius, y - hole.radius, hole.radius * 2, hole.radius * 2)
+    ctx.restore()
+  }
+  ctx.strokeStyle = theme.holeRim
+  ctx.lineWidth = 4
+  ctx.stroke()
+  ctx.fillStyle = theme.holeLabel
+  ctx.font = font(12)
+  ctx.textAlign = 'center'
+  ctx.fillText(label, x, y + 5)
+  ctx.closePath()
+  ctx.restore()
+}
+
+/** One countdown ring per running power-up, emptying as its time runs out. */
+function drawPowerUpTimers(ctx: CanvasRenderingContext2D, state: GameState) {
+  const shared = state.paddles.length > 1
+  state.activePowerUps.forEach((active, i) => {
+    const definition = POWER_UPS[active.type]
+    if (!definition) return
+    const x = state.width - 30 - i * (TIMER_RADIUS * 2 + 14)
+    const y = TIMER_TOP
+    const left = Math.max(0, Math.min(1, active.remaining / active.duration))
+
+    ctx.beginPath()
+    ctx.arc(x, y, TIMER_RADIUS, 0, Math.PI * 2)
+    ctx.fillStyle = 'rgba(0,0,0,0.5)'
+    ctx.fill()
+    ctx.beginPath()
+    ctx.arc(x, y, TIMER_RADIUS, -Math.PI / 2, -Math.PI / 2 + left * Math.PI * 2)
+    ctx.strokeStyle = powerUpColor(active.type)
+    ctx.lineWidth = 4
+    ctx.stroke()
+
+    ctx.fillStyle = '#fff'
+    ctx.font = font(10)
+    ctx.textAlign = 'center'
+    ctx.fillText(definition.badge, x, y + 4)
+    // Stacks and, on shared boards, whose paddle it's on
+    const note = [active.stacks > 1 ? `×${active.stacks}` : '', shared ? `P${active.player + 1}` : ''].filter(Boolean).join(' ')
+    if (note) ctx.fillText(note, x, y + TIMER_RADIUS + 12)
+  })
+}
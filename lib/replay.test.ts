@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { STEP_MS, createGame, loadLevel, step } from '@/lib/engine/game'
+import { DEFAULT_LEVEL_PACK } from '@/lib/engine/levels'
+import { ReplayError, createRecorder, parseReplay, quantizeInput, verifyReplay } from '@/lib/replay'
+
+const MAX_STEPS = 120_000 // Bounds the run if the bot never gets anywhere
+const STEPS_PAST_LEVEL = 2_000 // Keep playing a while into the second level, then stop
+
+/** Plays a seeded run with a paddle that chases the ball, recording it as the game does. */
+function recordRun(seed: number) {
+  const pack = DEFAULT_LEVEL_PACK
+  const state = createGame(800, 600, seed, pack.levels[0])
+  const recorder = createRecorder(state, { characters: ['Smashly'], packId: 'classic', pack })
+
+  let stopAt = MAX_STEPS
+  for (let t = 0; t < stopAt; t++) {
+    if (state.status === 'level_complete') {
+      if (state.level >= pack.levels.length) break
+      loadLevel(state, state.level + 1, pack.levels[state.level])
+      recorder.mark({ type: 'level', level: state.level })
+      stopAt = Math.min(stopAt, t + STEPS_PAST_LEVEL)
+    } else if (state.status !== 'playing') {
+      break
+    }
+    const ball = state.balls[0]
+    // Off-centre, so the ball goes somewhere new each time
+    const input = quantizeInput({ paddleX: ball ? ball.x + Math.sin(t) * 7.3333 : null, paddleVelocity: 0, launch: t % 50 === 0 })
+    recorder.record([input])
+    step(state, [input], STEP_MS)
+  }
+  return { state, replay: recorder.finish(state) }
+}
+
+describe('replays', () => {
+  it.each([1, 12345, 424242])('play back seed %i to the same score and end state', seed => {
+    const { state, replay } = recordRun(seed)
+    expect(replay.marks.some(mark => mark.type === 'level')).toBe(true)
+
+    const loaded = parseReplay(JSON.parse(JSON.stringify(replay)))
+    expect(loaded.result.score).toBe(state.score)
+    expect(verifyReplay(loaded)).toEqual([])
+  })
+
+  it('reports a result that playback does not reach', () => {
+    const { replay } = recordRun(1)
+    expect(verifyReplay({ ...replay, result: { ...replay.result, score: replay.result.score + 1 } })).toHaveLength(1)
+  })
+
+  it('rejects files that migrate but are not whole replays', () => {
+    const { replay } = recordRun(1)
+    const json = JSON.parse(JSON.stringify(replay))
+    expect(() => parseReplay({ ...json, inputs: [[0, 0, 'left', 0, 1, 1]] })).toThrow(ReplayError)
+    expect(() => parseReplay({ ...json, start: { ...json.start, paddles: 'none' } })).toThrow(ReplayError)
+    expect(() => parseReplay({ ...json, pack: { ...json.pack, levels: [] } })).toThrow(ReplayError)
+    expect(() => parseReplay({ version: replay.version })).toThrow(ReplayError)
+  })
+})
@@ -0,0 +1,330 @@
+import { DIFFICULTY_PRESETS } from '@/lib/engine/difficulty'
+import { NO_INPUT, STEP_MS, loadLevel, resizeGame, startEndless, step } from '@/lib/engine/game'
+import { type LevelPack, LevelPackError, parseLevelPack } from '@/lib/engine/levels'
+import type { GameEvent, GameInput, GameState, GameStatus } from '@/lib/engine/types'
+import { type Migrations, type StoredBlob, asRecord, isFiniteNumber, isGameState, isRecord, migrate } from '@/lib/storage'
+
+/**
+ * Replays: a run's starting state plus every input the engine saw, one
+ * simulation step at a time. The engine is deterministic, so stepping the
+ * same state through the same inputs lands on the same score and end state.
+ *
+ * Inputs are rounded before the live game sees them (see quantizeInput), so
+ * what gets recorded is exactly what was played and the log stays small.
+ * Anything that changes the board between steps (a new level, a restart, the
+ * window resizing) is recorded as a mark at the step it happened before.
+ */
+
+// --- Types ---
+
+/** One player's input, held for `count` consecutive steps from `step`. */
+export type InputRun = [step: number, player: number, paddleX: number | null, paddleVelocity: number, launch: 0 | 1, count: number]
+
+export type ReplayMark =
+  | { step: number; type: 'level'; level: number }
+  | { step: number; type: 'restart'; score: number; lives: number; playerScores: number[] }
+  | { step: number; type: 'resize'; width: number; height: number }
+
+// A mark as the caller gives it; the recorder adds the step
+type Unstepped<M> = M extends ReplayMark ? Omit<M, 'step'> : never
+
+/** How the run ended, so playback can be checked against it. */
+export interface ReplayResult {
+  steps: number
+  score: number
+  level: number
+  lives: number
+  status: GameStatus
+  rngState: number // Cheap witness that every random draw happened in the same order
+}
+
+export interface Replay {
+  version: number
+  recordedAt: string // ISO timestamp
+  characters: string[] // One per player
+  packId: string
+  pack: LevelPack
+  start: GameState // Before the first step; a resumed run starts mid-game
+  inputs: InputRun[]
+  marks: ReplayMark[]
+  result: ReplayResult
+}
+
+export interface ReplayRecorder {
+  /** Call with the inputs of every step, right before stepping. */
+  record: (inputs: GameInput[]) => void
+  mark: (mark: Unstepped<ReplayMark>) => void
+  finish: (state: GameState) => Replay
+}
+
+export interface ReplayPlayer {
+  readonly state: GameState
+  readonly position: number // Steps played so far
+  readonly total: number
+  /** Plays up to `steps` steps and returns what happened. */
+  advance: (steps: number) => GameEvent[]
+  /** Jumps to any step, backwards too. */
+  seek: (position: number) => void
+}
+
+// --- Constants ---
+const STORAGE_KEY = 'brown-hole:last-replay'
+export const REPLAY_VERSION = 7
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4]
+const CHECKPOINT_STEPS = 1200 // Ten seconds of play between scrubbing checkpoints
+const UNCAPPED_SPEED = 1000 // px per frame, for replays from before the speed cap
+
+/**
+ * MIGRATIONS[n] upgrades a version n replay to version n + 1. A rules change
+ * means old inputs no longer play out the same, so those versions are dropped
+ * rather than migrated (v1: before power-up timers; v2: before hazards and
+ * special bricks; v3: before moving holes; v4: before combos and level bonuses).
+ */
+const MIGRATIONS: Migrations = {
+  // v6: the run's play time, counted from where the replay starts
+  5: ({ start, ...data }) => {
+    const state = asRecord(start)
+    return { ...data, start: { ...state, stats: { ...asRecord(state.stats), playTime: 0 } } }
+  },
+  // v7: difficulty settings; older runs played normal, back when nothing capped the ball's speed
+  6: ({ start, ...data }) => ({
+    ...data,
+    start: { ...asRecord(start), difficulty: { ...DIFFICULTY_PRESETS.normal, maxBallSpeed: UNCAPPED_SPEED }, assist: false, safetyNets: 0 },
+  }),
+}
+
+// --- Recording ---
+
+/** Rounds what the live game feeds the engine, so recorded inputs are exact and short. */
+export const quantizeInput = (input: GameInput): GameInput => ({
+  paddleX: input.paddleX === null ? null : Math.round(input.paddleX * 10) / 10,
+  paddleVelocity: Math.round(input.paddleVelocity * 100) / 100,
+  launch: input.launch,
+})
+
+const isIdle = (input: GameInput) => input.paddleX === null && input.paddleVelocity === 0 && !input.launch
+
+/** Starts recording from `start`, which is copied as it is now. */
+export function createRecorder(start: GameState, context: Pick<Replay, 'characters' | 'packId' | 'pack'>): ReplayRecorder {
+  const initial: GameState = JSON.parse(JSON.stringify(start))
+  const inputs: InputRun[] = []
+  const marks: ReplayMark[] = []
+  const latest: (InputRun | undefined)[] = [] // Each player's most recent run
+  let steps = 0
+
+  return {
+    record: stepInputs => {
+      stepInputs.forEach((input, player) => {
+        if (isIdle(input)) return
+        const launch = input.launch ? 1 : 0
+        const run = latest[player]
+        if (run && run[0] + run[5] === steps && run[2] === input.paddleX && run[3] === input.paddleVelocity && run[4] === launch) {
+          run[5]++
+          return
+        }
+        const next: InputRun = [steps, player, input.paddleX, input.paddleVelocity, launch, 1]
+        inputs.push(next)
+        latest[player] = next
+      })
+      steps++
+    },
+    mark: mark => {
+      marks.push({ ...mark, step: steps } as ReplayMark)
+    },
+    finish: state => ({
+      ...context,
+      version: REPLAY_VERSION,
+      recordedAt: new Date().toISOString(),
+      start: initial,
+      inputs,
+      marks,
+      result: resultOf(state, steps),
+    }),
+  }
+}
+
+const resultOf = (state: GameState, steps: number): ReplayResult => ({
+  steps,
+  score: state.score,
+  level: state.level,
+  lives: state.lives,
+  status: state.status,
+  rngState: state.rngState,
+})
+
+// --- Playback ---
+
+export function createReplayPlayer(replay: Replay): ReplayPlayer {
+  const total = replay.result.steps
+
+  // Inputs by step; steps where nobody touched anything are missing
+  const byStep = new Map<number, GameInput[]>()
+  replay.inputs.forEach(([from, player, paddleX, paddleVelocity, launch, count]) => {
+    for (let s = from; s < from + count; s++) {
+      const inputs = byStep.get(s) ?? []
+      inputs[player] = { paddleX, paddleVelocity, launch: launch === 1 }
+      byStep.set(s, inputs)
+    }
+  })
+
+  // Checkpoints are taken between steps, so marks for the next step are still pending
+  const checkpoints = new Map<number, string>([[0, JSON.stringify({ state: replay.start, nextMark: 0 })]])
+  let state: GameState = JSON.parse(JSON.stringify(replay.start))
+  let position = 0
+  let nextMark = 0
+
+  const restore = (at: number) => {
+    const saved = JSON.parse(checkpoints.get(at)!)
+    state = saved.state
+    nextMark = saved.nextMark
+    position = at
+  }
+
+  const applyMarks = () => {
+    while (nextMark < replay.marks.length && replay.marks[nextMark].step <= position) {
+      const mark = replay.marks[nextMark++]
+      switch (mark.type) {
+        case 'level':
+          loadLevel(state, mark.level, replay.pack.levels[mark.level - 1])
+          break
+        case 'restart':
+          state.score = mark.score
+          state.lives = mark.lives
+          state.playerScores = [...mark.playerScores]
+          if (state.endless) startEndless(state)
+          else loadLevel(state, state.level, replay.pack.levels[state.level - 1])
+          break
+        case 'resize':
+          resizeGame(state, mark.width, mark.height)
+          break
+      }
+    }
+  }
+
+  const advance = (steps: number) => {
+    const events: GameEvent[] = []
+    for (let i = 0; i < steps && position < total; i++) {
+      applyMarks()
+      const inputs = byStep.get(position) ?? []
+      events.push(...step(state, state.paddles.map((_, player) => inputs[player] ?? NO_INPUT), STEP_MS))
+      position++
+      if (position % CHECKPOINT_STEPS === 0 && !checkpoints.has(position)) {
+        checkpoints.set(position, JSON.stringify({ state, nextMark }))
+      }
+    }
+    // Whatever was marked after the last step (e.g. a restart right before quitting)
+    if (position === total) applyMarks()
+    return events
+  }
+
+  const seek = (target: number) => {
+    target = Math.min(Math.max(Math.round(target), 0), total)
+    // Checkpoints only exist for stretches already played, so take the latest one up to the target
+    let at = Math.floor(target / CHECKPOINT_STEPS) * CHECKPOINT_STEPS
+    while (!checkpoints.has(at)) at -= CHECKPOINT_STEPS
+    if (target < position || at > position) restore(at)
+    advance(target - position)
+  }
+
+  return {
+    get state() { return state },
+    get position() { return position },
+    total,
+    advance,
+    seek,
+  }
+}
+
+/**
+ * Plays the whole replay headlessly and reports any way its end differs from
+ * what was recorded. An empty list means it reproduces the run exactly.
+ */
+export function verifyReplay(replay: Replay): string[] {
+  const player = createReplayPlayer(replay)
+  player.seek(player.total)
+  const actual = resultOf(player.state, player.position)
+  return (Object.keys(replay.result) as (keyof ReplayResult)[])
+    .filter(key => actual[key] !== replay.result[key])
+    .map(key => `${key}: recorded ${replay.result[key]}, replayed ${actual[key]}`)
+}
+
+// --- Files & storage ---
+
+export class ReplayError extends Error {
+  constructor(source: string, problem: string) {
+    super(`Invalid replay ${source}: ${problem}`)
+    this.name = 'ReplayError'
+  }
+}
+
+const MARK_FIELDS = { level: ['level'], restart: ['score', 'lives'], resize: ['width', 'height'] } satisfies Record<ReplayMark['type'], string[]>
+const RESULT_NUMBERS = ['steps', 'score', 'level', 'lives', 'rngState'] as const
+const STATUSES: GameStatus[] = ['playing', 'level_complete', 'gameover']
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0
+
+const isInputRun = (run: unknown): run is InputRun =>
+  Array.isArray(run) && run.length === 6 &&
+  isCount(run[0]) && isCount(run[1]) && (run[2] === null || isFiniteNumber(run[2])) &&
+  isFiniteNumber(run[3]) && (run[4] === 0 || run[4] === 1) && isCount(run[5]) && run[5] > 0
+
+function isMark(mark: unknown): mark is ReplayMark {
+  if (!isRecord(mark) || !isCount(mark.step) || !(typeof mark.type === 'string' && mark.type in MARK_FIELDS)) return false
+  const fields: string[] = MARK_FIELDS[mark.type as ReplayMark['type']]
+  return fields.every(key => isFiniteNumber(mark[key])) &&
+    (mark.type !== 'restart' || (Array.isArray(mark.playerScores) && mark.playerScores.every(isFiniteNumber)))
+}
+
+const isResult = (result: unknown): result is ReplayResult =>
+  isRecord(result) && RESULT_NUMBERS.every(key => isFiniteNumber(result[key])) && STATUSES.includes(result.status as GameStatus)
+
+/** Checks a migrated replay through and through; says what's wrong with it rather than returning null. */
+const validator = (source: string) => ({ recordedAt, characters, packId, pack, start, inputs, marks, result }: StoredBlob): Replay => {
+  if (typeof recordedAt !== 'string' || typeof packId !== 'string' || !Array.isArray(characters) || !characters.every(name => typeof name === 'string')) {
+    throw new ReplayError(source, 'missing when it was recorded, its pack or its fighters')
+  }
+  if (!isGameState(start)) throw new ReplayError(source, 'missing its starting board')
+  if (characters.length !== start.paddles.length) throw new ReplayError(source, 'has a different number of fighters and paddles')
+  if (!Array.isArray(inputs) || !inputs.every(isInputRun) || inputs.some(run => run[1] >= characters.length)) {
+    throw new ReplayError(source, 'has missing or unreadable inputs')
+  }
+  if (!Array.isArray(marks) || !marks.every(isMark)) throw new ReplayError(source, 'has missing or unreadable marks')
+  if (!isResult(result)) throw new ReplayError(source, 'missing how the run ended')
+  let levels: LevelPack
+  try {
+    levels = parseLevelPack(pack, source)
+  } catch (e) {
+    throw new ReplayError(source, e instanceof LevelPackError ? e.issues.join('; ') : 'unreadable levels')
+  }
+  return { version: REPLAY_VERSION, recordedAt, characters, packId, pack: levels, start, inputs, marks, result }
+}
+
+/** Checks an imported file is a replay this build can play. */
+export function parseReplay(json: unknown, source = 'file'): Replay {
+  const replay = migrate(json, REPLAY_VERSION, MIGRATIONS, validator(source))
+  if (!replay) throw new ReplayError(source, 'not a replay, or recorded with a version of the game this one plays differently')
+  return replay
+}
+
+export const replayFileName = (replay: Replay) =>
+  `brown-hole-replay-${replay.start.seed}-${replay.recordedAt.slice(0, 10)}.json`
+
+/** Only the latest run is kept; older ones can be exported first. */
+export function saveLastReplay(replay: Replay) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(replay))
+  } catch (e) {
+    console.log("Saving replay failed", e)
+  }
+}
+
+export function loadLastReplay(): Replay | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    return raw ? parseReplay(JSON.parse(raw), 'in storage') : null
+  } catch (e) {
+    console.log("Loading replay failed", e)
+    return null
+  }
+}
@@ -0,0 +1,103 @@
+import { DIFFICULTY_PRESETS, paddleWidth } from '@/lib/engine/difficulty'
+import { type LevelPack, parseLevelPack } from '@/lib/engine/levels'
+import { POWER_UPS } from '@/lib/engine/powerUps'
+import type { GameState } from '@/lib/engine/types'
+import { type Migrations, type StoredBlob, asRecord, isGameState, migrate } from '@/lib/storage'
+
+/**
+ * Snapshot of a run in progress, so closing the tab doesn't lose it.
+ * GameState is plain data (timed effects are stored as ms remaining), so a
+ * snapshot is just a JSON copy plus what's needed to rebuild the screen around it.
+ * Bump SNAPSHOT_VERSION when the shape changes and add a step to MIGRATIONS.
+ */
+
+// --- Types ---
+export interface Snapshot {
+  version: number
+  savedAt: string // ISO timestamp
+  character: string
+  packId: string
+  pack: LevelPack // The pack as it was, in case the file changes before we resume
+  game: GameState
+}
+
+// --- Constants ---
+const STORAGE_KEY = 'brown-hole:snapshot'
+export const SNAPSHOT_VERSION = 8
+
+// Snapshot steps only ever change the stored game
+const gameStep = (change: (game: Record<string, unknown>) => Record<string, unknown>) =>
+  ({ game, ...data }: StoredBlob) => ({ ...data, game: change(asRecord(game)) })
+
+const MIGRATIONS: Migrations = {
+  // v2: one paddle per player, with per-player scores
+  1: gameStep(({ paddle, ...game }) => ({ ...game, paddles: [paddle], playerScores: [game.score], server: 0 })),
+  // v3: power-ups run on timers; ones that used to last until the next reset get a fresh one
+  2: gameStep(({ penetratorTime, ...game }) => {
+    const timer = (type: 'girthy' | 'clingy' | 'penetrator', player: number, remaining: number = POWER_UPS[type].duration) =>
+      ({ type, player, remaining, duration: remaining, stacks: 1 })
+    const paddles = Array.isArray(game.paddles) ? game.paddles.map(asRecord) : []
+    const activePowerUps = paddles.flatMap((paddle, player) => [
+      ...(Number(paddle.width) > paddleWidth(Number(game.level)) ? [timer('girthy', player)] : []),
+      ...(paddle.isSticky ? [timer('clingy', player)] : []),
+    ])
+    if (typeof penetratorTime === 'number' && penetratorTime > 0) activePowerUps.push(timer('penetrator', 0, penetratorTime))
+    return { ...game, activePowerUps }
+  }),
+  // v4: fake holes
+  3: gameStep(game => ({ ...game, decoys: [] })),
+  // v5: any number of holes
+  4: gameStep(({ hole, ...game }) => ({ ...game, holes: [hole] })),
+  // v6: combos and level bonuses; the level's clock and points start over
+  5: gameStep(game => ({ ...game, levelTime: 0, levelPoints: 0, stats: { ...asRecord(game.stats), bestCombo: 0 } })),
+  // v7: the run's play time; earlier levels weren't timed, so it starts from this one
+  6: gameStep(game => ({ ...game, stats: { ...asRecord(game.stats), playTime: game.levelTime } })),
+  // v8: difficulty settings and assist; everything before was played on normal
+  7: gameStep(game => ({ ...game, difficulty: DIFFICULTY_PRESETS.normal, assist: false, safetyNets: 0 })),
+}
+
+function validate({ savedAt, character, packId, pack, game }: StoredBlob): Snapshot | null {
+  if (typeof savedAt !== 'string' || typeof character !== 'string' || typeof packId !== 'string' || !isGameState(game)) return null
+  try {
+    return { version: SNAPSHOT_VERSION, savedAt, character, packId, pack: parseLevelPack(pack, 'snapshot pack'), game }
+  } catch {
+    return null
+  }
+}
+
+export function saveSnapshot(game: GameState, context: Pick<Snapshot, 'character' | 'packId' | 'pack'>) {
+  const snapshot: Snapshot = {
+    ...context,
+    version: SNAPSHOT_VERSION,
+    savedAt: new Date().toISOString(),
+    game,
+  }
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot))
+  } catch (e) {
+    console.log("Saving snapshot failed", e)
+  }
+}
+
+/** Returns a fresh copy each time, so the caller may mutate it. */
+export function loadSnapshot(): Snapshot | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return null
+    const snapshot = migrate(JSON.parse(raw), SNAPSHOT_VERSION, MIGRATIONS, validate)
+    if (!snapshot) clearSnapshot()
+    return snapshot
+  } catch (e) {
+    console.log("Loading snapshot failed", e)
+    return null
+  }
+}
+
+export function clearSnapshot() {
+  try {
+    window.localStorage.removeItem(STORAGE_KEY)
+  } catch {
+    // Nothing to clean up then
+  }
+}
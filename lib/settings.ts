@@ -0,0 +1,135 @@
+import type { Volumes } from '@/lib/audio'
+import type { EffectLevels } from '@/lib/render'
+import { type Migrations, migrate } from '@/lib/storage'
+import { THEMES, type ThemeName } from '@/lib/themes'
+
+/**
+ * Player preferences: volumes, how much the screen shakes and sparks, how
+ * chatty the motivations are, how fast keys and sticks steer, the colour
+ * theme, and the motion and brick-pattern options. Kept in localStorage and
+ * versioned like the other stored blobs. None of it touches the simulation,
+ * so it never affects seeds or replays.
+ */
+
+// --- Types ---
+
+export interface Settings {
+  masterVolume: number // 0..1, and so on below
+  sfxVolume: number
+  musicVolume: number
+  muted: boolean // The HUD's quick toggle, on top of the volumes
+  shake: number // Screen-shake scale; 0 turns it off
+  particles: number // Particle count scale; 0 turns them off
+  motivation: number // Chance of a motivation per broken brick
+  sensitivity: number // Key and stick steering speed scale
+  theme: ThemeName
+  motion: MotionPreference
+  healthPatterns: boolean // Patterns on bricks by health, in themes that don't always have them
+}
+
+/** Reduced motion turns off shake, bouncing overlays and confetti; 'system' follows the browser's prefers-reduced-motion. */
+export type MotionPreference = 'system' | 'full' | 'reduced'
+
+interface SettingsFile extends Settings {
+  version: number
+}
+
+// --- Constants ---
+const STORAGE_KEY = 'brown-hole:settings'
+const SETTINGS_VERSION = 2
+
+export const DEFAULT_SETTINGS: Settings = {
+  masterVolume: 1,
+  sfxVolume: 1,
+  musicVolume: 1,
+  muted: false,
+  shake: 1,
+  particles: 1,
+  motivation: 0.12,
+  sensitivity: 1,
+  theme: 'classic',
+  motion: 'system',
+  healthPatterns: false,
+}
+
+export const MOTION_PREFERENCES: MotionPreference[] = ['system', 'full', 'reduced']
+
+/** What each numeric setting may be set to: [min, max, step]. */
+export const SETTING_LIMITS = {
+  masterVolume: [0, 1, 0.05],
+  sfxVolume: [0, 1, 0.05],
+  musicVolume: [0, 1, 0.05],
+  shake: [0, 2, 0.25],
+  particles: [0, 2, 0.25],
+  motivation: [0, 0.5, 0.02],
+  sensitivity: [0.5, 2, 0.1],
+} satisfies Partial<Record<keyof Settings, [min: number, max: number, step: number]>>
+
+const MIGRATIONS: Migrations = {
+  // v2: accessibility options
+  1: data => ({ ...data, motion: 'system', healthPatterns: false }),
+}
+
+/** Pulls stored values into range; anything missing or unreadable gets its default. */
+function sanitize(value: Record<string, unknown>): Settings {
+  const settings = { ...DEFAULT_SETTINGS }
+  ;(Object.keys(SETTING_LIMITS) as (keyof typeof SETTING_LIMITS)[]).forEach(key => {
+    const [min, max] = SETTING_LIMITS[key]
+    const raw = value[key]
+    if (typeof raw === 'number' && Number.isFinite(raw)) settings[key] = Math.min(max, Math.max(min, raw))
+  })
+  if (typeof value.muted === 'boolean') settings.muted = value.muted
+  if (typeof value.theme === 'string' && value.theme in THEMES) settings.theme = value.theme as ThemeName
+  if (MOTION_PREFERENCES.includes(value.motion as MotionPreference)) settings.motion = value.motion as MotionPreference
+  if (typeof value.healthPatterns === 'boolean') settings.healthPatterns = value.healthPatterns
+  return settings
+}
+
+// --- Storage ---
+
+export function loadSettings(): Settings {
+  if (typeof window === 'undefined') return DEFAULT_SETTINGS
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return DEFAULT_SETTINGS
+    const migrated = migrate(JSON.parse(raw), SETTINGS_VERSION, MIGRATIONS, sanitize)
+    if (!migrated) {
+      console.log("Discarding unreadable settings")
+      return DEFAULT_SETTINGS
+    }
+    return migrated
+  } catch (e) {
+    console.log("Loading settings failed", e)
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function saveSettings(settings: Settings) {
+  const file: SettingsFile = { version: SETTINGS_VERSION, ...settings }
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(file))
+  } catch (e) {
+    console.log("Saving settings failed", e)
+  }
+}
+
+// --- Helpers ---
+
+/** The audio buses' volumes, with mute applied. */
+export const audioVolumes = (settings: Settings): Volumes => ({
+  master: settings.muted ? 0 : settings.masterVolume,
+  sfx: settings.sfxVolume,
+  music: settings.musicVolume,
+})
+
+/** Whether to keep things still, from the setting or, left to the system, the browser's preference. */
+export function reducedMotion(settings: Settings): boolean {
+  if (settings.motion !== 'system') return settings.motion === 'reduced'
+  return typeof window !== 'undefined' && window.matchMedia('(prefers-reduced-motion: reduce)').matches
+}
+
+/** Shake and particle levels for the renderer; reduced motion keeps the screen still. */
+export const effectLevels = (settings: Settings, reduced = reducedMotion(settings)): EffectLevels => ({
+  shake: reduced ? 0 : settings.shake,
+  particles: settings.particles,
+})
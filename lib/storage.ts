@@ -0,0 +1,77 @@
+import { DIFFICULTY_PRESETS } from '@/lib/engine/difficulty'
+import type { GameState, GameStatus } from '@/lib/engine/types'
+
+/**
+ * The versioning the blobs kept in localStorage share. Each stored blob
+ * carries a version; a module bumps it when its shape changes and adds a
+ * migration step, then checks what comes out with its own validator.
+ */
+
+// --- Types ---
+
+/** A stored blob whose contents haven't been checked yet. */
+export type StoredBlob = Record<string, unknown> & { version: number }
+
+/** Migrations[n] upgrades a version n blob to version n + 1. */
+export type Migrations = Record<number, (data: StoredBlob) => Record<string, unknown>>
+
+// --- Checks ---
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/** `value` if it's an object, else an empty one; lets migration steps spread parts of old blobs safely. */
+export const asRecord = (value: unknown): Record<string, unknown> => isRecord(value) ? value : {}
+
+const isStoredBlob = (data: unknown): data is StoredBlob =>
+  isRecord(data) && typeof data.version === 'number'
+
+const GAME_NUMBERS = ['width', 'height', 'level', 'score', 'lives', 'server', 'levelTime', 'levelPoints', 'safetyNets', 'seed', 'rngState'] as const
+const GAME_LISTS = ['balls', 'bricks', 'powerUps', 'decoys', 'allowedPowerUps', 'activePowerUps'] as const
+const GAME_STATUSES: GameStatus[] = ['playing', 'level_complete', 'gameover']
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+const hasNumbers = (value: unknown, keys: readonly string[]): value is Record<string, unknown> =>
+  isRecord(value) && keys.every(key => isFiniteNumber(value[key]))
+
+/**
+ * Whether a game state read back from storage or a file is whole enough to
+ * step: every counter a number, every list a list, one paddle and score per
+ * player, at least one hole, and a full set of difficulty settings.
+ */
+export function isGameState(value: unknown): value is GameState {
+  if (!hasNumbers(value, GAME_NUMBERS)) return false
+  const { status, paddles, playerScores, holes, stats, difficulty, assist } = value
+  return GAME_STATUSES.includes(status as GameStatus) &&
+    GAME_LISTS.every(key => Array.isArray(value[key])) &&
+    (value.balls as unknown[]).every(ball => hasNumbers(ball, ['x', 'y', 'dx', 'dy', 'radius'])) &&
+    Array.isArray(paddles) && paddles.length > 0 && paddles.every(paddle => hasNumbers(paddle, ['x', 'y', 'width', 'height'])) &&
+    Array.isArray(playerScores) && playerScores.length === paddles.length && playerScores.every(isFiniteNumber) &&
+    Array.isArray(holes) && holes.length > 0 && holes.every(hole => hasNumbers(hole, ['x', 'y', 'radius'])) &&
+    hasNumbers(stats, ['bricksBroken', 'powerUpsCaught', 'bestCombo', 'playTime']) &&
+    hasNumbers(difficulty, Object.keys(DIFFICULTY_PRESETS.normal)) &&
+    typeof assist === 'boolean'
+}
+
+// --- Migration ---
+
+/**
+ * Brings `data` up to `version` through `migrations` and hands the result
+ * to `validate`. Null when it isn't a versioned blob, a step is missing, it
+ * comes from a newer build, or `validate` turns it down.
+ */
+export function migrate<T>(
+  data: unknown,
+  version: number,
+  migrations: Migrations,
+  validate: (data: StoredBlob) => T | null,
+): T | null {
+  if (!isStoredBlob(data)) return null
+  let current = data
+  while (current.version < version) {
+    const step = migrations[current.version]
+    if (!step) return null
+    current = { ...step(current), version: current.version + 1 }
+  }
+  return current.version === version ? validate(current) : null
+}
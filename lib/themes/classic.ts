@@ -0,0 +1,31 @@
+import type { Theme } from './theme'
+
+export const classic: Theme = {
+  label: 'Classic',
+  background: 'linear-gradient(to bottom, #000000, #1a1a1a)',
+  text: '#ffffff',
+  paddle: '#facc15',
+  bricks: [
+    '#f472b6', // Pink 400
+    '#a78bfa', // Violet 400
+    '#60a5fa', // Blue 400
+    '#34d399', // Emerald 400
+  ],
+  healthPattern: 'rgba(0,0,0,0.3)',
+  unbreakable: '#475569',
+  explosive: '#f97316', // Orange
+  explosiveCore: '#fde047',
+  regenerating: '#4ade80',
+  portal: '#164e63',
+  portalRims: ['#22d3ee', '#e879f9', '#a3e635'],
+  shield: '#fbbf24',
+  hole: '#3f2e18',
+  holeRim: '#fbbf24',
+  holeLabel: '#ffffff',
+  gravityHalo: '251, 191, 36',
+  particles: { shape: 'square', size: 4 },
+  popups: ['#ffffff', '#facc15', '#f472b6'],
+  fonts: { label: 'Arial', popup: 'Arial' },
+  trajectory: 'rgba(255,255,255,0.35)',
+  safetyNet: '#22d3ee',
+}
@@ -0,0 +1,26 @@
+import { classic } from './classic'
+import type { Theme } from './theme'
+
+/**
+ * The Okabe–Ito palette, which stays distinct under the common kinds of
+ * colour blindness, with health patterns on so nothing hangs on hue alone.
+ */
+export const colourblind: Theme = {
+  ...classic,
+  label: 'Colourblind safe',
+  paddle: '#f0e442', // Yellow
+  bricks: ['#e69f00', '#56b4e9', '#009e73', '#cc79a7'], // Orange, sky blue, bluish green, reddish purple
+  healthPattern: 'rgba(0,0,0,0.45)',
+  healthPatterns: true,
+  unbreakable: '#6b7280',
+  explosive: '#d55e00', // Vermilion
+  explosiveCore: '#f0e442',
+  regenerating: '#009e73',
+  portal: '#0c2a44',
+  portalRims: ['#56b4e9', '#e69f00', '#f0e442'],
+  shield: '#0072b2', // Blue
+  holeRim: '#f0e442',
+  gravityHalo: '240, 228, 66',
+  popups: ['#ffffff', '#f0e442', '#e69f00'],
+  safetyNet: '#56b4e9',
+}
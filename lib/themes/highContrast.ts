@@ -0,0 +1,29 @@
+import { classic } from './classic'
+import type { Theme } from './theme'
+
+/** Bright, flat colours on black, every edge outlined in white, and health patterns on. */
+export const highContrast: Theme = {
+  ...classic,
+  label: 'High contrast',
+  background: '#000000',
+  paddle: '#ffffff',
+  bricks: ['#ffff00', '#00ffff', '#ff00ff', '#ffffff'],
+  healthPattern: '#000000',
+  healthPatterns: true,
+  outline: '#ffffff',
+  unbreakable: '#808080',
+  explosive: '#ff8000',
+  explosiveCore: '#000000',
+  regenerating: '#00ff00',
+  portal: '#000000',
+  portalRims: ['#00ffff', '#ff00ff', '#ffff00'],
+  shield: '#ffff00',
+  hole: '#000000',
+  holeRim: '#ffffff',
+  holeLabel: '#ffffff',
+  gravityHalo: '255, 255, 255',
+  particles: { shape: 'square', size: 5, colors: ['#ffffff', '#ffff00'] },
+  popups: ['#ffffff', '#ffff00', '#00ffff'],
+  trajectory: 'rgba(255,255,255,0.8)',
+  safetyNet: '#00ffff',
+}
@@ -0,0 +1,28 @@
+import { classic } from './classic'
+import { colourblind } from './colourblind'
+import { highContrast } from './highContrast'
+import { innerCircle } from './innerCircle'
+import { neon } from './neon'
+import { sunset } from './sunset'
+import type { Theme } from './theme'
+
+/**
+ * Theme registry. A theme is a module exporting a Theme (see theme.ts);
+ * add it here and it shows up in Settings. Keys are what settings store, so
+ * keep them stable.
+ */
+
+export type { Theme }
+
+export const THEMES = {
+  classic,
+  neon,
+  sunset,
+  'inner-circle': innerCircle,
+  colourblind,
+  'high-contrast': highContrast,
+} satisfies Record<string, Theme>
+
+export type ThemeName = keyof typeof THEMES
+
+export const THEME_NAMES = Object.keys(THEMES) as ThemeName[]
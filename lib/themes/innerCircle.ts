@@ -0,0 +1,15 @@
+import { classic } from './classic'
+import type { Theme } from './theme'
+
+/** The hole gets the inner-circle artwork and everything goes a warmer brown to match. */
+export const innerCircle: Theme = {
+  ...classic,
+  label: 'Inner Circle',
+  background: 'radial-gradient(circle at center, #3f2e18, #0c0a09)',
+  bricks: ['#d97706', '#b45309', '#92400e', '#78350f'],
+  hole: '#1c1917',
+  holeImage: '/assets/inner-circle.svg',
+  holeLabel: '#fde68a',
+  particles: { shape: 'circle', size: 5, colors: ['#fbbf24', '#d97706', '#fde68a'] },
+  fonts: { label: 'Impact, "Arial Black", sans-serif', popup: 'Impact, "Arial Black", sans-serif' },
+}
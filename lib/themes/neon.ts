@@ -0,0 +1,18 @@
+import { classic } from './classic'
+import type { Theme } from './theme'
+
+export const neon: Theme = {
+  ...classic,
+  label: 'Neon',
+  background: 'linear-gradient(to bottom, #020617, #1e1b4b)',
+  paddle: '#22d3ee',
+  bricks: ['#f0abfc', '#22d3ee', '#a3e635', '#facc15'],
+  unbreakable: '#334155',
+  shield: '#e879f9',
+  hole: '#0f172a',
+  holeRim: '#e879f9',
+  gravityHalo: '232, 121, 249',
+  particles: { shape: 'circle', size: 3 },
+  popups: ['#ffffff', '#22d3ee', '#e879f9'],
+  fonts: { label: '"Courier New", monospace', popup: '"Courier New", monospace' },
+}
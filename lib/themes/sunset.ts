@@ -0,0 +1,16 @@
+import { classic } from './classic'
+import type { Theme } from './theme'
+
+export const sunset: Theme = {
+  ...classic,
+  label: 'Sunset',
+  background: 'linear-gradient(to bottom, #431407, #1c1917)',
+  paddle: '#fb923c',
+  bricks: ['#fca5a5', '#fdba74', '#fde68a', '#f9a8d4'],
+  unbreakable: '#57534e',
+  shield: '#f97316',
+  hole: '#292524',
+  holeRim: '#f97316',
+  gravityHalo: '249, 115, 22',
+  popups: ['#ffffff', '#fdba74', '#f87171'],
+}
@@ -0,0 +1,42 @@
+import type { PowerUpType } from '@/lib/engine/powerUps'
+
+/**
+ * What a theme sets. Colours are any CSS colour; images are URLs, usually
+ * under public/assets/, and anything optional falls back to plain drawing.
+ */
+export interface Theme {
+  label: string
+  background: string // CSS background behind the board
+  text: string
+  paddle: string
+  paddleSprite?: string // Stretched over the paddle
+  bricks: string[] // By health: the first is one hit left
+  healthPattern: string // Stripes, dots and hatching that tell health apart without colour, when shown
+  healthPatterns?: boolean // Always show them, whatever Settings says
+  outline?: string // Edge round bricks, paddles and balls
+  unbreakable: string
+  explosive: string
+  explosiveCore: string
+  regenerating: string // Its rim, over the usual health colour
+  portal: string
+  portalRims: string[] // Partners share a rim colour
+  shield: string // Best matching holeRim, since it guards the hole
+  hole: string
+  holeRim: string
+  holeImage?: string // Drawn inside the rim in place of the plain fill
+  holeLabel: string // Colour of the BROWN HOLE text
+  gravityHalo: string // r, g, b of a gravity well's halo
+  powerUps?: Partial<Record<PowerUpType, string>> // Over the power-ups' own colours
+  particles: {
+    shape: 'square' | 'circle'
+    size: number // px
+    colors?: string[] // In place of whatever set them off
+  }
+  popups: string[] // Score popups warm up through these as a chain grows
+  fonts: {
+    label: string // CSS font-family for labels on bricks, holes and capsules
+    popup: string
+  }
+  trajectory: string // Assist mode's preview
+  safetyNet: string
+}
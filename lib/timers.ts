@@ -0,0 +1,48 @@
+/**
+ * Timers that run on game time instead of wall-clock time. They only advance
+ * when the frame loop ticks them, so pausing the loop freezes every pending
+ * message, flash and level transition along with the game.
+ */
+
+export interface GameTimers {
+  after: (ms: number, callback: () => void) => number
+  cancel: (id: number) => void
+  tick: (dt: number) => void
+  clear: () => void
+}
+
+interface PendingTimer {
+  id: number
+  remaining: number
+  callback: () => void
+}
+
+export function createTimers(): GameTimers {
+  let pending: PendingTimer[] = []
+  let nextId = 1
+
+  return {
+    after(ms, callback) {
+      const id = nextId++
+      pending.push({ id, remaining: ms, callback })
+      return id
+    },
+    cancel(id) {
+      pending = pending.filter(timer => timer.id !== id)
+    },
+    tick(dt) {
+      const due: PendingTimer[] = []
+      pending.forEach(timer => {
+        timer.remaining -= dt
+        if (timer.remaining <= 0) due.push(timer)
+      })
+      if (due.length === 0) return
+      pending = pending.filter(timer => timer.remaining > 0)
+      // Callbacks may schedule new timers, so run them after the list is settled
+      due.forEach(timer => timer.callback())
+    },
+    clear() {
+      pending = []
+    },
+  }
+}
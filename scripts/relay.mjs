@@ -0,0 +1,117 @@
+/**
+ * Tiny WebSocket relay for online versus. It knows nothing about the game:
+ * it hands out room codes, keeps at most two players per room and forwards
+ * whatever one of them sends to the other. The message shapes live in
+ * lib/online.ts.
+ *
+ *   npm run relay              # ws://localhost:3001
+ *   RELAY_PORT=4000 npm run relay
+ */
+import { WebSocketServer } from 'ws'
+
+const PORT = Number(process.env.RELAY_PORT ?? 3001)
+const ROOM_SIZE = 2
+const CODE_LETTERS = 'ABCDEFGHJKMNPQRSTUVWXYZ' // No I, L or O to misread
+const HEARTBEAT_MS = 15000
+
+/** code -> players in join order; index 0 is the host */
+const rooms = new Map()
+
+function newCode() {
+  let code
+  do {
+    code = Array.from({ length: 4 }, () => CODE_LETTERS[Math.floor(Math.random() * CODE_LETTERS.length)]).join('')
+  } while (rooms.has(code))
+  return code
+}
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message))
+}
+
+function leave(socket) {
+  const code = socket.room
+  const players = code && rooms.get(code)
+  if (!players) return
+  socket.room = null
+
+  const rest = players.filter(p => p !== socket)
+  if (rest.length === 0) {
+    rooms.delete(code)
+    return
+  }
+  // Whoever is left takes over as host
+  rooms.set(code, rest)
+  rest.forEach((p, player) => send(p, { type: 'peer_left', player }))
+}
+
+function handle(socket, message) {
+  switch (message.type) {
+    case 'create': {
+      leave(socket)
+      const code = newCode()
+      rooms.set(code, [socket])
+      socket.room = code
+      send(socket, { type: 'joined', code, player: 0 })
+      break
+    }
+    case 'join': {
+      const code = String(message.code ?? '').toUpperCase()
+      const players = rooms.get(code)
+      if (!players) return send(socket, { type: 'error', message: `No room called ${code}.` })
+      if (players.includes(socket)) return
+      if (players.length >= ROOM_SIZE) return send(socket, { type: 'error', message: `Room ${code} is full.` })
+      leave(socket)
+      players.push(socket)
+      socket.room = code
+      send(socket, { type: 'joined', code, player: players.length - 1 })
+      players.filter(p => p !== socket).forEach(p => send(p, { type: 'peer_joined' }))
+      break
+    }
+    case 'leave':
+      leave(socket)
+      break
+    case 'relay': {
+      const players = socket.room && rooms.get(socket.room)
+      if (!players) return
+      players.filter(p => p !== socket).forEach(p => send(p, { type: 'relay', data: message.data }))
+      break
+    }
+    default:
+      send(socket, { type: 'error', message: `Unknown message "${message.type}".` })
+  }
+}
+
+const server = new WebSocketServer({ port: PORT })
+
+server.on('connection', socket => {
+  socket.isAlive = true
+  socket.on('pong', () => { socket.isAlive = true })
+
+  socket.on('message', raw => {
+    const malformed = { type: 'error', message: 'Messages must be JSON objects with a type.' }
+    let message
+    try {
+      message = JSON.parse(raw.toString())
+    } catch {
+      return send(socket, malformed)
+    }
+    // Valid JSON can still be null, a number or a string; handle() would throw on those
+    if (!message || typeof message !== 'object' || typeof message.type !== 'string') return send(socket, malformed)
+    handle(socket, message)
+  })
+
+  socket.on('close', () => leave(socket))
+})
+
+// Drop connections that stopped answering, so dead players don't hold rooms open
+const heartbeat = setInterval(() => {
+  server.clients.forEach(socket => {
+    if (!socket.isAlive) return socket.terminate()
+    socket.isAlive = false
+    socket.ping()
+  })
+}, HEARTBEAT_MS)
+
+server.on('close', () => clearInterval(heartbeat))
+server.on('listening', () => console.log(`Brown Hole relay listening on ws://localhost:${PORT}`))